@@ -0,0 +1,21 @@
+#!/bin/bash
+# Checks the built library for problems that only show once it is
+# installed elsewhere, e.g. assets loaded from root-absolute paths.
+
+set -e
+
+for file in dist/asciiground.es.js dist/asciiground.umd.js dist/index.d.ts; do
+    if [ ! -f "$file" ]; then
+        echo "Error: $file is missing."
+        exit 1
+    fi
+done
+
+# The bundles are served from wherever they are installed, so they must not load anything from the site root.
+if grep -Eq "new URL\(['\"]/|/assets/" dist/asciiground.es.js dist/asciiground.umd.js; then
+    echo "Error: the bundles load assets from root-absolute paths:"
+    grep -Eo "new URL\(['\"][^'\"]*['\"]|[\"'][^\"']*/assets/[^\"']*[\"']" dist/asciiground.es.js dist/asciiground.umd.js
+    exit 1
+fi
+
+echo "Build output looks good."
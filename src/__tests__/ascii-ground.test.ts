@@ -176,14 +176,13 @@ describe('ASCIIGround', () => {
             });
         });
 
-        it('should handle edge case with empty character array', () => {
+        it('should reject an empty character array', () => {
             const options: ASCIIGroundOptions = {
                 ...defaultOptions,
                 characters: [],
             };
 
-            const ascii = new ASCIIGround(canvas, options).init();
-            expect(ascii).toBeInstanceOf(ASCIIGround);
+            expect(() => new ASCIIGround(canvas, options)).toThrow('characters: expected at least one character');
         });
     });
 });
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { AnsiRenderer, isWideCharacter } from '../cli/ansi';
+import { formatUsage, parseArguments } from '../cli/arguments';
+import { CellBuffer } from '../rendering/cell-buffer';
+
+describe('CLI arguments', () => {
+    it('should map flags onto options', () => {
+        const cli = parseArguments([
+            '--pattern', 'rain',
+            '--characters', ' |!',
+            '--speed=0.2',
+            '--noise-scale', '0.3',
+            '--rainDensity', '0.5',
+            '--rain-direction', 'diagonal-left',
+            '--palette', '#000, #fff',
+            '--fps', '12',
+            '--duration', '2'
+        ]);
+
+        expect(cli.options).toMatchObject({
+            pattern: 'rain',
+            characters: [' ', '|', '!'],
+            speed: 0.2,
+            noiseScale: 0.3,
+            rainDensity: 0.5,
+            rainDirection: 'diagonal-left',
+            palette: ['#000', '#fff'],
+        });
+
+        expect(cli.fps).toBe(12);
+        expect(cli.duration).toBe(2);
+        expect(cli.color).toBe(true);
+    });
+
+    it('should map flags onto fields of option objects', () => {
+        const cli = parseArguments([
+            '--pattern', 'japan-rain',
+            '--japan-rain-glyphs', '01',
+            '--japan-rain-ranges', '0x30A0-0x30FF, 0x4E00-0x4E7F',
+            '--japan-rain-trail-length', '4,9',
+            '--japan-rain-fade', '0.1',
+            '--life-wrap', 'false'
+        ]);
+
+        expect(cli.options).toMatchObject({
+            japanRain: {
+                glyphs: ['0', '1'],
+                ranges: [[0x30A0, 0x30FF], [0x4E00, 0x4E7F]],
+                trailLength: [4, 9],
+                fade: 0.1,
+            },
+            lifeWrap: false,
+        });
+
+        expect(() => parseArguments(['--life-wrap', 'no'])).toThrow(
+            'Flag --life-wrap expects true or false, got "no".'
+        );
+        expect(() => parseArguments(['--japan-rain-trail-length', '4'])).toThrow('- japanRain.trailLength:');
+        expect(() => parseArguments(['--japan-rain-ranges', '0x30A0'])).toThrow(
+            'Flag --japan-rain-ranges expects ranges such as "0x30A0-0x30FF", got "0x30A0".'
+        );
+    });
+
+    it('should take the size and the time of the output', () => {
+        const cli = parseArguments(['--columns', '120', '--rows=40', '--time', '2.5']);
+
+        expect([cli.columns, cli.rows, cli.time]).toEqual([120, 40, 2.5]);
+        expect(() => parseArguments(['--rows', '0'])).toThrow('Flag --rows expects a positive whole number.');
+        expect(() => parseArguments(['--time', '-1'])).toThrow('Flag --time expects a number of at least 0.');
+    });
+
+    it('should fall back to a default pattern', () => {
+        const cli = parseArguments([]);
+        expect(cli.options.pattern).toBe('perlin');
+        expect(cli.duration).toBeNull();
+        expect(cli.cellWidth).toBeNull();
+        expect([cli.columns, cli.rows, cli.time]).toEqual([null, null, 10]);
+    });
+
+    it('should disable colors with a flag or NO_COLOR', () => {
+        expect(parseArguments(['--no-color']).color).toBe(false);
+        expect(parseArguments([], { NO_COLOR: '1' }).color).toBe(false);
+        expect(parseArguments([], { NO_COLOR: '' }).color).toBe(true);
+    });
+
+    it('should reject invalid flags', () => {
+        expect(() => parseArguments(['--nope', '1'])).toThrow('Unknown flag --nope, see --help.');
+        expect(() => parseArguments(['--speed', 'fast'])).toThrow('Flag --speed expects a number, got "fast".');
+        expect(() => parseArguments(['--speed'])).toThrow('Flag --speed expects a value.');
+        expect(() => parseArguments(['--direction', 'north'])).toThrow(
+            'Flag --direction expects one of left, right, up, down, got "north".'
+        );
+        expect(() => parseArguments(['--pattern', 'nope', '--rain-density', '2'])).toThrow(
+            'Invalid ASCIIGround options:\n'
+            + '- pattern: unknown pattern "nope", expected one of perlin'
+        );
+        expect(() => parseArguments(['--rain-density', '2'])).toThrow(
+            '- rainDensity: expected a number between 0 and 1, got 2'
+        );
+        expect(() => parseArguments(['perlin'])).toThrow('Unexpected argument "perlin".');
+    });
+
+    it('should list every option flag in the usage', () => {
+        const usage = formatUsage();
+        expect(usage).toContain('--noise-scale <number>');
+        expect(usage).toContain('--rain-direction <vertical|diagonal-left|diagonal-right>');
+    });
+});
+
+describe('ANSI renderer', () => {
+    const frame = new CellBuffer();
+
+    frame.resize(3, 2);
+    frame.set(0, 0, '#', '#ff0000');
+    frame.set(1, 0, '#', '#ff0000');
+    frame.set(2, 1, 'ア', 'rgba(0, 255, 0, 0.5)');
+
+    it('should draw truecolor rows at fixed cursor positions', () => {
+        const renderer = new AnsiRenderer({
+            cellWidth: 1,
+            color: true,
+            backgroundColor: '#000000',
+            paintBackground: false,
+        });
+
+        expect(renderer.render(frame)).toBe(
+            '\u001b[1;1H\u001b[38;2;255;0;0m## \u001b[0m' +
+            '\u001b[2;1H  \u001b[38;2;0;128;0m \u001b[0m'
+        );
+    });
+
+    it('should give wide characters two columns', () => {
+        const renderer = new AnsiRenderer({
+            cellWidth: 2,
+            color: false,
+            backgroundColor: '#000000',
+            paintBackground: false,
+        });
+
+        expect(renderer.render(frame)).toBe('\u001b[1;1H# #   \u001b[2;1H    ア');
+    });
+
+    it('should paint the background color', () => {
+        const renderer = new AnsiRenderer({
+            cellWidth: 1,
+            color: true,
+            backgroundColor: '#102030',
+            paintBackground: true,
+        });
+
+        expect(renderer.render(frame)).toContain('\u001b[2;1H\u001b[48;2;16;32;48m');
+
+        const fractional = new AnsiRenderer({
+            cellWidth: 1,
+            color: true,
+            backgroundColor: 'rgb(16.4, 32.6, 48)',
+            paintBackground: true,
+        });
+
+        expect(fractional.render(frame)).toContain('\u001b[2;1H\u001b[48;2;16;33;48m');
+    });
+
+    it('should detect wide characters', () => {
+        expect(isWideCharacter('ア')).toBe(true);
+        expect(isWideCharacter('乀')).toBe(true);
+        expect(isWideCharacter('#')).toBe(false);
+    });
+});
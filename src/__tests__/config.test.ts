@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+    ASCIIGround,
+    CONFIG_VERSION,
+    findOptionIssues,
+    parseConfig,
+    presets,
+    type ASCIIGroundConfig,
+    type ASCIIGroundOptions
+} from '../index';
+
+describe('Config serialization', () => {
+    let canvas: HTMLCanvasElement;
+
+    const options: ASCIIGroundOptions = {
+        pattern: 'wave',
+        characters: ['.', '~', '#'],
+        speed: 0.5,
+        color: '#3c9ee5',
+        palette: { type: 'gradient', stops: ['#000000', '#ffffff'] },
+        layers: [{ pattern: 'rain', opacity: 0.5, palette: () => '#ff0000' }],
+    };
+
+    beforeEach(() => {
+        canvas = document.createElement('canvas');
+        canvas.width = 100;
+        canvas.height = 60;
+
+        vi.spyOn(canvas, 'getContext').mockReturnValue({
+            fillStyle: '',
+            font: '',
+            textBaseline: 'top' as CanvasTextBaseline,
+            fillRect: vi.fn(),
+            fillText: vi.fn(),
+            measureText: vi.fn(() => ({ width: 10 } as TextMetrics)),
+        } as unknown as CanvasRenderingContext2D);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should save the full configuration of an instance', () => {
+        const config = new ASCIIGround(canvas, options).toJSON();
+
+        expect(config.version).toBe(CONFIG_VERSION);
+        expect(config.options).toMatchObject({ pattern: 'wave', speed: 0.5, fontSize: 12, frequency: 1 });
+        expect(config.options.palette).toEqual(options.palette);
+        // Functions cannot be expressed in JSON.
+        expect(config.options.layers).toEqual([{ pattern: 'rain', opacity: 0.5 }]);
+    });
+
+    it('should restore an instance from its config', () => {
+        const json = JSON.stringify(new ASCIIGround(canvas, options));
+        const restored = ASCIIGround.fromJSON(canvas, json);
+
+        expect(restored).toBeInstanceOf(ASCIIGround);
+        expect(JSON.stringify(restored)).toBe(json);
+    });
+
+    it('should reject configs of another version or shape', () => {
+        expect(() => parseConfig('{"version": 1, "options": ')).toThrow(/^Invalid ASCIIGround config, it is not valid/);
+        expect(() => parseConfig('[]')).toThrow('Invalid ASCIIGround config, expected an object with "version"');
+
+        expect(() => parseConfig({ version: 2, options } as ASCIIGroundConfig))
+            .toThrow('Unsupported ASCIIGround config version 2, expected 1.');
+
+        expect(() => parseConfig({ options } as ASCIIGroundConfig))
+            .toThrow('Unsupported ASCIIGround config version undefined, expected 1.');
+
+        expect(() => parseConfig({ version: 1, options: 'wave' } as unknown as ASCIIGroundConfig))
+            .toThrow('Invalid ASCIIGround config, expected "options" to be an object.');
+
+        const invalid = { version: 1, options: { ...options, speed: 'fast' } } as unknown as ASCIIGroundConfig;
+        expect(() => parseConfig(invalid)).toThrow('- speed: expected a number of at least 0, got "fast"');
+    });
+
+    it('should extend presets', () => {
+        expect(parseConfig({ version: 1, preset: 'tv-static', options: { speed: 2 } })).toEqual({
+            ...presets['tv-static'],
+            speed: 2,
+        });
+
+        expect(() => parseConfig({ version: 1, preset: 'disco', options: {} } as unknown as ASCIIGroundConfig))
+            .toThrow(/^Unknown preset "disco", expected one of matrix, classic-rain, ocean-waves, tv-static/);
+    });
+});
+
+describe('Presets', () => {
+    it.each(Object.entries(presets))('should have valid options for %s', (_name, options) => {
+        expect(findOptionIssues(options)).toEqual([]);
+    });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { ASCIIGround, type ASCIIGroundOptions, type FrameEvent, type OptionsChangeEvent } from '../index';
+
+describe('Events', () => {
+    let canvas: HTMLCanvasElement;
+    let context: Partial<CanvasRenderingContext2D>;
+    let frameCallback: FrameRequestCallback | null;
+
+    beforeEach(() => {
+        canvas = document.createElement('canvas');
+        canvas.width = 40;
+        canvas.height = 20;
+        frameCallback = null;
+
+        context = {
+            fillRect: vi.fn(),
+            fillText: vi.fn(),
+            measureText: vi.fn(() => ({ width: 10 } as TextMetrics)),
+        };
+
+        vi.spyOn(canvas, 'getContext').mockReturnValue(context as CanvasRenderingContext2D);
+        vi.spyOn(performance, 'now').mockReturnValue(0);
+
+        vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+            frameCallback = callback;
+            return 1;
+        });
+
+        vi.stubGlobal('cancelAnimationFrame', vi.fn());
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    const options: ASCIIGroundOptions = { pattern: 'perlin', characters: ['#'], speed: 2, fontSize: 10 };
+
+    it('should report every frame with its time and delta', () => {
+        const ascii = new ASCIIGround(canvas, options);
+        const frames: FrameEvent[] = [];
+        ascii.on('frame', (event) => frames.push(event));
+
+        ascii.startAnimation();
+        frameCallback!(100);
+        frameCallback!(150);
+
+        const [first, second] = frames.slice(-2);
+        expect([first.time, first.delta, second.time, second.delta]).toEqual([100, 100, 150, 50]);
+        // Animation time is scaled by speed.
+        expect(second.animationTime).toBeCloseTo(0.3);
+    });
+
+    it('should hand the context to render hooks around the frame being drawn', () => {
+        const ascii = new ASCIIGround(canvas, options);
+        const order: string[] = [];
+        vi.mocked(context.fillText!).mockImplementation(() => order.push('draw'));
+
+        ascii.on('beforeRender', ({ frame }) => {
+            frame.chars[0] = '@';
+            order.push('before');
+        });
+
+        ascii.on('afterRender', (event) => {
+            expect(event.context).toBe(context);
+            expect([event.cellWidth, event.cellHeight]).toEqual([10, 10]);
+            order.push('after');
+        });
+
+        ascii.init();
+
+        expect(order).toEqual(['before', 'draw', 'draw', 'draw', 'draw', 'draw', 'draw', 'draw', 'draw', 'after']);
+        expect(context.fillText).toHaveBeenCalledWith('@', 0, 0);
+    });
+
+    it('should report playback, resizes and option changes', () => {
+        const ascii = new ASCIIGround(canvas, options);
+        const events: [string, unknown][] = [];
+        const types = ['start', 'stop', 'resize', 'optionsChange'] as const;
+        types.forEach((type) => ascii.on(type, (event) => events.push([type, event])));
+
+        ascii.startAnimation();
+        ascii.resize(100, 30);
+        ascii.updateOptions({ color: '#ff0000' });
+        ascii.stopAnimation();
+        ascii.stopAnimation();
+
+        expect(events.map(([type]) => type)).toEqual(['start', 'resize', 'optionsChange', 'stop']);
+        expect(events[1][1]).toEqual({ width: 100, height: 30, cols: 10, rows: 3 });
+        expect(events[2][1]).toMatchObject({ changes: { color: '#ff0000' }, options: { color: '#ff0000', speed: 2 } });
+    });
+
+    it('should report the final values of a transition', () => {
+        const ascii = new ASCIIGround(canvas, options);
+        const changes: OptionsChangeEvent[] = [];
+        ascii.on('optionsChange', (event) => changes.push(event));
+        ascii.startAnimation();
+
+        ascii.updateOptions({ speed: 4 }, { transition: { duration: 1000 } });
+        expect(changes[0].options.speed).toBe(4);
+    });
+
+    it('should stop calling removed listeners', () => {
+        const ascii = new ASCIIGround(canvas, options);
+        const first = vi.fn();
+        const second = vi.fn();
+
+        const unsubscribe = ascii.on('frame', first);
+        ascii.on('frame', second);
+        unsubscribe();
+        ascii.off('frame', second);
+        ascii.init();
+
+        expect(first).not.toHaveBeenCalled();
+        expect(second).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,75 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { FrameGenerator, type ASCIIGroundOptions } from '../index';
+import { resolveOptions } from '../options';
+
+describe('Fire pattern', () => {
+    const createGenerator = (options: Partial<ASCIIGroundOptions> = {}, cols = 6, rows = 8) => new FrameGenerator(
+        resolveOptions({ pattern: 'fire', characters: ['.', ':', '#'], speed: 1, seed: 1, ...options }),
+        cols,
+        rows
+    );
+
+    /**
+     * Draw the frame as rows of `#` for burning and `.` for empty cells.
+     */
+    const draw = ({ chars, cols }: { chars: string[], cols: number }) => Array.from(
+        { length: chars.length / cols },
+        (_, row) => chars.slice(row * cols, (row + 1) * cols).map((char) => char ? '#' : '.').join('')
+    );
+
+    /**
+     * Run the fire for the given animation time, in frames of a tenth of a time unit.
+     */
+    const burn = (generator: FrameGenerator, duration: number) => {
+        for (let time = 0; time < duration; time += 0.1)
+            generator.compute(time);
+
+        return generator.compute(duration);
+    };
+
+    it('should start from the edge opposite to its direction', () => {
+        expect(draw(createGenerator({}, 3, 3).compute(0))).toEqual(['...', '...', '###']);
+        expect(draw(createGenerator({ direction: 'up' }, 3, 3).compute(0))).toEqual(['...', '...', '###']);
+        expect(draw(createGenerator({ direction: 'down' }, 3, 3).compute(0))).toEqual(['###', '...', '...']);
+        expect(draw(createGenerator({ direction: 'right' }, 3, 3).compute(0))).toEqual(['#..', '#..', '#..']);
+        expect(draw(createGenerator({ direction: 'left' }, 3, 3).compute(0))).toEqual(['..#', '..#', '..#']);
+    });
+
+    it('should travel in its direction', () => {
+        const rows = draw(burn(createGenerator({ direction: 'left', fireCooling: 0.1 }, 8, 6), 1));
+
+        expect(rows.every((row) => row.endsWith('#'))).toBe(true);
+        expect(rows.some((row) => row.at(-3) === '#')).toBe(true);
+    });
+
+    it('should rise away from its source', () => {
+        const rows = draw(burn(createGenerator({ fireCooling: 0.1 }), 1));
+
+        expect(rows.at(-1)).toBe('######');
+        expect(rows.at(-3)).toContain('#');
+    });
+
+    it('should rise less far the faster it cools', () => {
+        const height = (fireCooling: number) => {
+            const rows = draw(burn(createGenerator({ fireCooling }, 20, 40), 3));
+            return rows.length - rows.findIndex((row) => row.includes('#'));
+        };
+
+        expect(height(1)).toBeLessThan(height(0.1));
+    });
+
+    it('should pick characters by heat', () => {
+        const hot = createGenerator({ fireIntensity: 1 }, 3, 3).compute(0);
+        const mild = createGenerator({ fireIntensity: 0.5 }, 3, 3).compute(0);
+
+        expect(hot.chars.slice(6)).toEqual(['#', '#', '#']);
+        expect(mild.chars.slice(6)).toEqual([':', ':', ':']);
+        expect(createGenerator({ fireIntensity: 0 }, 3, 3).compute(0).chars).toEqual(Array(9).fill(''));
+    });
+
+    it('should color flames through the palette', () => {
+        expect(new Set(createGenerator({ palette: ['#123456'] }, 3, 3).compute(0).colors.slice(6)))
+            .toEqual(new Set(['#123456']));
+    });
+});
@@ -0,0 +1,70 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { FrameGenerator, renderFrameToGrid, renderFrameToString, type ASCIIGroundOptions } from '../index';
+import { resolveOptions } from '../options';
+
+describe('Headless rendering', () => {
+    const options: ASCIIGroundOptions = {
+        pattern: 'perlin',
+        characters: [' ', '.', 'o', '#'],
+        speed: 1,
+        noiseScale: 0.3,
+        seed: 1,
+    };
+
+    it('should render frames to text without a canvas', () => {
+        expect(typeof document).toBe('undefined');
+        expect(renderFrameToString(options, 0, 12, 3)).toMatchInlineSnapshot(`
+          "oooo...oooo.
+          ......oo#o..
+          ...oooooo..o"
+        `);
+    });
+
+    it('should return a grid of the requested size', () => {
+        const grid = renderFrameToGrid(options, 500, 7, 4);
+
+        expect(grid).toHaveLength(4);
+        expect(grid.every((row) => row.length === 7)).toBe(true);
+        expect(grid.join('\n')).not.toBe(renderFrameToGrid(options, 0, 7, 4).join('\n'));
+    });
+
+    it('should produce the same frame for the same seed and time', () => {
+        const seeded: ASCIIGroundOptions = { ...options, pattern: 'static', seed: 7 };
+        const frame = renderFrameToString(seeded, 1000, 20, 5);
+
+        expect(renderFrameToString(seeded, 1000, 20, 5)).toBe(frame);
+        expect(renderFrameToString({ ...seeded, seed: 8 }, 1000, 20, 5)).not.toBe(frame);
+    });
+
+    it('should fill empty cells of stateful patterns with spaces', () => {
+        const text = renderFrameToString({ ...options, pattern: 'japan-rain', seed: 3 }, 0, 10, 6);
+        const lines = text.split('\n');
+
+        expect(lines).toHaveLength(6);
+        expect(lines.every((line) => line.length === 10)).toBe(true);
+        expect(text).toMatch(/ /);
+    });
+
+    it('should simulate stateful patterns up to the requested time', () => {
+        const rain: ASCIIGroundOptions = { ...options, pattern: 'japan-rain', seed: 3 };
+        const generator = new FrameGenerator(resolveOptions(rain), 10, 6);
+
+        // Frames of 1/64 of a second add up without rounding errors.
+        for (let frame = 0; frame <= 2 * 64; frame++)
+            generator.compute(frame / 64);
+
+        expect(renderFrameToString(rain, 2000, 10, 6)).not.toBe(renderFrameToString(rain, 0, 10, 6));
+        expect(renderFrameToGrid(rain, 2000, 10, 6).flat().join(''))
+            .toBe(generator.frame.chars.map((char) => char || ' ').join(''));
+    });
+
+    it('should keep pattern state across frames of a generator', () => {
+        const generator = new FrameGenerator(resolveOptions({ ...options, pattern: 'japan-rain', seed: 3 }), 10, 6);
+        const first = generator.compute(0).chars.join('');
+        const second = generator.compute(1).chars.join('');
+
+        expect(second).not.toBe(first);
+        expect(generator.frame.chars.join('')).toBe(second);
+    });
+});
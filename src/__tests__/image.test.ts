@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { FrameGenerator, renderFrame, renderFrameToString, type ASCIIGroundOptions, type ImageSource } from '../index';
+import { resolveOptions } from '../options';
+import { fitSource } from '../patterns/image';
+
+/**
+ * Raw pixels from rows of 0-255 gray levels, without relying on the ImageData constructor.
+ */
+function grayImage(levels: number[][]): ImageData {
+    const height = levels.length;
+    const width = levels[0].length;
+    const data = new Uint8ClampedArray(width * height * 4);
+
+    levels.flat().forEach((level, index) => {
+        data.set([level, level, level, 255], index * 4);
+    });
+
+    return { data, width, height, colorSpace: 'srgb' } as ImageData;
+}
+
+/**
+ * Hand out the given context from every OffscreenCanvas, which jsdom does not implement.
+ */
+function stubScratchCanvas(context: object): void {
+    vi.stubGlobal('OffscreenCanvas', class {
+        width: number;
+        height: number;
+
+        constructor(width: number, height: number) {
+            this.width = width;
+            this.height = height;
+        }
+
+        getContext() {
+            return context;
+        }
+    });
+}
+
+function imageOptions(source: ImageSource, image: Partial<ASCIIGroundOptions['image']> = {}): ASCIIGroundOptions {
+    return {
+        pattern: 'image',
+        characters: [' ', '.', '+', '#'],
+        speed: 1,
+        image: { source, ...image },
+    };
+}
+
+describe('Image pattern', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should fit sources onto the grid', () => {
+        expect(fitSource(200, 100, 10, 10, 'stretch')).toEqual({
+            sx: 0, sy: 0, sw: 200, sh: 100, dx: 0, dy: 0, dw: 10, dh: 10,
+        });
+
+        expect(fitSource(200, 100, 10, 10, 'cover')).toEqual({
+            sx: 50, sy: 0, sw: 100, sh: 100, dx: 0, dy: 0, dw: 10, dh: 10,
+        });
+
+        expect(fitSource(200, 100, 10, 10, 'contain')).toEqual({
+            sx: 0, sy: 0, sw: 200, sh: 100, dx: 0, dy: 2.5, dw: 10, dh: 5,
+        });
+
+        // Cells twice as tall as they are wide fit twice as many columns.
+        expect(fitSource(100, 100, 20, 10, 'contain', 0.5)).toMatchObject({ dx: 0, dw: 20, dh: 10 });
+    });
+
+    it('should map luminance onto the characters', () => {
+        const source = grayImage([
+            [0, 100],
+            [180, 255]
+        ]);
+
+        expect(renderFrameToString(imageOptions(source, { fit: 'stretch' }), 0, 2, 2)).toBe(' .\n+#');
+        expect(renderFrameToString(imageOptions(source, { fit: 'stretch', invert: true }), 0, 2, 2)).toBe('#+\n. ');
+    });
+
+    it('should average the pixels beneath each cell', () => {
+        const source = grayImage([
+            [0, 0, 255, 255],
+            [0, 0, 255, 255],
+            [255, 255, 255, 255],
+            [255, 255, 0, 255]
+        ]);
+
+        const frame = renderFrame(imageOptions(source, { fit: 'stretch', sourceColor: true }), 0, 2, 2);
+        expect(frame.chars).toEqual([' ', '#', '#', '+']);
+        expect(frame.colors).toEqual(['#000000', '#ffffff', '#ffffff', '#bfbfbf']);
+    });
+
+    it('should leave cells outside of a contained source empty', () => {
+        const source = grayImage([[255, 255, 255, 255]]);
+        expect(renderFrameToString(imageOptions(source, { fit: 'contain' }), 0, 4, 4)).toBe('    \n####\n    \n    ');
+    });
+
+    it('should color cells through the palette', () => {
+        const source = grayImage([[0, 255]]);
+        const options = { ...imageOptions(source, { fit: 'stretch' }), palette: ['#111111', '#222222'] };
+        expect(renderFrame(options, 0, 2, 1).colors).toEqual(['#111111', '#222222']);
+    });
+
+    it('should sample drawable sources at grid resolution', () => {
+        const context = {
+            clearRect: vi.fn(),
+            drawImage: vi.fn(),
+            getImageData: vi.fn((_x: number, _y: number, width: number, height: number) => ({
+                data: new Uint8ClampedArray(width * height * 4).fill(255),
+            })),
+        };
+
+        stubScratchCanvas(context);
+        const bitmap = { width: 400, height: 200 } as ImageBitmap;
+        const generator = new FrameGenerator(resolveOptions(imageOptions(bitmap)), 10, 10);
+        generator.compute(0);
+        generator.compute(1);
+
+        expect(context.drawImage).toHaveBeenCalledTimes(1);
+        expect(context.drawImage).toHaveBeenCalledWith(bitmap, 100, 0, 200, 200, 0, 0, 10, 10);
+        expect(generator.frame.chars.every((char) => char === '#')).toBe(true);
+    });
+
+    it('should resample videos once they move on', () => {
+        const context = {
+            clearRect: vi.fn(),
+            drawImage: vi.fn(),
+            getImageData: vi.fn(() => ({ data: new Uint8ClampedArray(4) })),
+        };
+
+        stubScratchCanvas(context);
+        const video = document.createElement('video');
+        Object.defineProperties(video, { videoWidth: { value: 4 }, videoHeight: { value: 4 } });
+
+        const generator = new FrameGenerator(resolveOptions(imageOptions(video)), 1, 1);
+        generator.compute(0);
+        generator.compute(1);
+        expect(context.drawImage).toHaveBeenCalledTimes(1);
+
+        Object.defineProperty(video, 'currentTime', { value: 0.5 });
+        generator.compute(2);
+        expect(context.drawImage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should require a source', () => {
+        const generator = new FrameGenerator(resolveOptions({ pattern: 'image', characters: ['#'], speed: 1 }), 2, 2);
+        expect(() => generator.compute(0)).toThrow('The image pattern needs an `image` option with a source.');
+    });
+});
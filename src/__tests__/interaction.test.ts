@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { ASCIIGround, registerPattern, unregisterPattern, type ASCIIGroundOptions } from '../index';
+import { PointerField, PointerTracker } from '../interaction';
+
+declare module '../index' {
+    interface PatternNameMap {
+        'test-flat': true
+    }
+}
+
+// jsdom does not implement PointerEvent, so mouse events stand in for it.
+function dispatchPointer(type: string, clientX: number, clientY: number): void {
+    window.dispatchEvent(new MouseEvent(type, { clientX, clientY }));
+}
+
+describe('Pointer interaction', () => {
+    let canvas: HTMLCanvasElement;
+    let mockContext: Partial<CanvasRenderingContext2D>;
+    let options: ASCIIGroundOptions;
+
+    const charAt = (x: number, y: number) => {
+        const calls = vi.mocked(mockContext.fillText!).mock.calls;
+        return calls.filter(([, cx, cy]) => cx === x && cy === y).at(-1)?.[0];
+    };
+
+    beforeEach(() => {
+        canvas = document.createElement('canvas');
+        canvas.width = 200;
+        canvas.height = 200;
+
+        mockContext = {
+            fillStyle: '',
+            font: '',
+            textBaseline: 'top' as CanvasTextBaseline,
+            fillRect: vi.fn(),
+            fillText: vi.fn(),
+            measureText: vi.fn(() => ({ width: 10 } as TextMetrics)),
+        };
+
+        vi.spyOn(canvas, 'getContext').mockReturnValue(mockContext as CanvasRenderingContext2D);
+        registerPattern('test-flat', () => -1);
+
+        options = {
+            pattern: 'test-flat',
+            characters: ['.', '+', '#'],
+            speed: 1,
+            fontSize: 10,
+        };
+    });
+
+    afterEach(() => {
+        unregisterPattern('test-flat');
+        vi.restoreAllMocks();
+    });
+
+    it('should not listen to the pointer unless enabled', () => {
+        const spy = vi.spyOn(window, 'addEventListener');
+        new ASCIIGround(canvas, options).init();
+        expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should brighten cells around the pointer with the spotlight effect', () => {
+        const ascii = new ASCIIGround(canvas, { ...options, interaction: { effect: 'spotlight', radius: 4 } });
+        dispatchPointer('pointermove', 105, 105);
+        ascii.init();
+
+        expect(charAt(100, 100)).toBe('#');
+        expect(charAt(0, 0)).toBe('.');
+    });
+
+    it('should push the pattern away from the pointer with the repel effect', () => {
+        registerPattern('test-flat', (x) => (x < 10 ? -1 : 1));
+        const ascii = new ASCIIGround(canvas, { ...options, interaction: { effect: 'repel', radius: 5 } });
+        ascii.init();
+        expect(charAt(120, 50)).toBe('#');
+
+        dispatchPointer('pointermove', 95, 50);
+        ascii.init();
+        // The left half extends to the right of the pointer.
+        expect(charAt(120, 50)).toBe('.');
+    });
+
+    it('should spread ripples from clicks and let them expire', () => {
+        const field = new PointerField({ effect: 'ripple', radius: 10, rippleSpeed: 10 });
+        field.setCellSize(10, 10);
+        field.input({ type: 'down', x: 50, y: 50 });
+        expect(field.rippleCount).toBe(1);
+
+        const start = performance.now();
+        const noise = field.wrap(() => -1, start + 500);
+        // Half a second in, the ring has spread five cells.
+        expect(noise(10, 5, 0, {} as never)).toBeGreaterThan(-1);
+        expect(noise(5, 5, 0, {} as never)).toBe(-1);
+
+        field.wrap(() => -1, start + 1500);
+        expect(field.rippleCount).toBe(0);
+    });
+
+    it('should translate window pointer events into canvas input', () => {
+        const onInput = vi.fn();
+        const tracker = new PointerTracker(canvas, onInput);
+        tracker.attach();
+        dispatchPointer('pointermove', 10, 20);
+        dispatchPointer('pointerdown', 30, 40);
+        window.dispatchEvent(new MouseEvent('pointerout', { relatedTarget: null }));
+        tracker.detach();
+        dispatchPointer('pointermove', 50, 50);
+
+        expect(onInput.mock.calls).toEqual([
+            [{ type: 'move', x: 10, y: 20 }],
+            [{ type: 'down', x: 30, y: 40 }],
+            [{ type: 'leave', x: 0, y: 0 }]
+        ]);
+    });
+
+    it('should forget the pointer when it leaves', () => {
+        const field = new PointerField({ effect: 'spotlight' });
+        field.input({ type: 'move', x: 10, y: 10 });
+        expect(field.pointer).toEqual({ x: 10, y: 10 });
+
+        field.input({ type: 'leave', x: 0, y: 0 });
+        expect(field.pointer).toBeNull();
+    });
+
+    it('should accept pointer input dispatched by hand', () => {
+        const ascii = new ASCIIGround(canvas, { ...options, interaction: { effect: 'spotlight', radius: 4 } });
+        ascii.dispatchPointer({ type: 'move', x: 105, y: 105 });
+        ascii.init();
+        expect(charAt(100, 100)).toBe('#');
+    });
+
+    it('should detach listeners when interaction is disabled', () => {
+        const spy = vi.spyOn(window, 'removeEventListener');
+        const ascii = new ASCIIGround(canvas, { ...options, interaction: { effect: 'spotlight' } });
+        ascii.updateOptions({ interaction: undefined });
+
+        expect(spy).toHaveBeenCalledWith('pointermove', expect.any(Function));
+        dispatchPointer('pointermove', 105, 105);
+        ascii.init();
+        expect(charAt(100, 100)).toBe('.');
+    });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { ASCIIGround, type ASCIIGroundOptions } from '../index';
+import { ASCIIGround, type ASCIIGroundOptions, type PatternContext } from '../index';
+import type { Fill } from '../rendering/cell-buffer';
+import { japanRainPattern, type JapanRainDrop, type JapanRainOptions } from '../patterns/japan-rain';
+import { createPatternContext } from './pattern-context';
 
 const mockRequestAnimationFrame = vi.fn();
 const mockCancelAnimationFrame = vi.fn();
@@ -207,3 +210,119 @@ describe('ASCIIGround Japan Rain Pattern', () => {
         });
     });
 });
+
+describe('Japan rain configuration', () => {
+    const defaults: ASCIIGroundOptions = { pattern: 'japan-rain', characters: ['a', 'b'], speed: 1, rainDensity: 1 };
+
+    const createContext = (options: Partial<ASCIIGroundOptions> = {}, deltaTime = 0) => createPatternContext(
+        { ...defaults, ...options },
+        { cols: 20, deltaTime }
+    );
+
+    const glyphsOf = (drops: JapanRainDrop[]) => new Set(drops.flatMap((drop) => drop.chars));
+
+    /**
+     * Render the drops, returning the fill and the colors of the head and the rest of the drops.
+     */
+    const render = (context: PatternContext) => {
+        const state = japanRainPattern.init(context);
+        const fills: Fill[] = [];
+        const heads = new Set<string | undefined>();
+        const trails = new Set<string | undefined>();
+
+        state.drops.particles = [{ ...state.drops.particles[0], y: 5, length: 4, chars: ['a', 'b', 'c', 'd'] }];
+
+        japanRainPattern.render(state, {
+            cols: 20,
+            rows: 10,
+            fill: (color, opacity = 1) => fills.push({ color, opacity }),
+            drawChar: (char, _col, _row, color) => (char === 'a' ? heads : trails).add(color),
+        }, context);
+
+        return { fills, heads, trails };
+    };
+
+    it('should pick glyphs from the given pool', () => {
+        const dropsOf = (japanRain: JapanRainOptions) => (
+            japanRainPattern.init(createContext({ japanRain })).drops.particles
+        );
+        const pooled = dropsOf({ glyphs: ['x', 'y'] });
+        const characters = dropsOf({ glyphs: 'characters' });
+        const ranged = dropsOf({ ranges: [[0x41, 0x43]] });
+
+        expect(glyphsOf(pooled)).toEqual(new Set(['x', 'y']));
+        expect(glyphsOf(characters)).toEqual(new Set(['a', 'b']));
+        expect(glyphsOf(ranged)).toEqual(new Set(['A', 'B', 'C']));
+    });
+
+    it('should keep trail lengths and speeds within their ranges', () => {
+        const context = createContext({ japanRain: { trailLength: [3, 5], fallSpeed: [10, 12] } });
+        const drops = japanRainPattern.init(context).drops.particles;
+
+        expect(drops).toHaveLength(20);
+
+        for (const drop of drops) {
+            expect(drop.length).toBeGreaterThanOrEqual(3);
+            expect(drop.length).toBeLessThanOrEqual(5);
+            expect(drop.chars).toHaveLength(drop.length);
+            expect(drop.vy).toBeGreaterThanOrEqual(10);
+            expect(drop.vy).toBeLessThanOrEqual(12);
+        }
+    });
+
+    it('should only flicker at the given rate', () => {
+        // Drops that stand still are never replaced, which would change their glyphs too.
+        const context = createContext({ japanRain: { flickerRate: 0, fallSpeed: [0, 0] } }, 0.1);
+        const state = japanRainPattern.init(context);
+        const chars = state.drops.particles.map((drop) => drop.chars.join(''));
+
+        japanRainPattern.update(state, context, 0);
+        japanRainPattern.update(state, context, 0.1);
+        expect(state.drops.particles.map((drop) => drop.chars.join(''))).toEqual(chars);
+
+        const flickering = createContext({ japanRain: { flickerRate: 1000, fallSpeed: [0, 0] } }, 0.1);
+        japanRainPattern.update(state, flickering, 0.2);
+        expect(state.drops.particles.map((drop) => drop.chars.join(''))).not.toEqual(chars);
+    });
+
+    it('should fade towards the background color', () => {
+        expect(render(createContext()).fills).toEqual([{ color: '#000000', opacity: 0.2 }]);
+        expect(render(createContext({ backgroundColor: '#ffffff', japanRain: { fade: 0.5 } })).fills)
+            .toEqual([{ color: '#ffffff', opacity: 0.5 }]);
+        expect(render(createContext({ backgroundColor: 'white', japanRain: { fade: 2 } })).fills)
+            .toEqual([{ color: 'white', opacity: 1 }]);
+        expect(render(createContext({ backgroundColor: 'hsl(0, 0%, 100%)' })).fills)
+            .toEqual([{ color: 'hsl(0, 0%, 100%)', opacity: 0.2 }]);
+    });
+
+    it('should only draw the part of a drop inside the grid', () => {
+        const context = createContext();
+        const state = japanRainPattern.init(context);
+        const rows: number[] = [];
+
+        state.drops.particles = [{ ...state.drops.particles[0], y: 10, length: 3, chars: ['a', 'b', 'c'] }];
+        japanRainPattern.render(state, {
+            cols: 20,
+            rows: 10,
+            fill: () => undefined,
+            drawChar: (_char, _col, row) => rows.push(row),
+        }, context);
+
+        expect(rows).toEqual([9, 8]);
+    });
+
+    it('should make the head of every drop glow', () => {
+        const palette = () => '#123456';
+
+        expect(render(createContext()).heads).toEqual(new Set(['#ccffcc']));
+        expect(render(createContext({ japanRain: { headGlow: '#ff0000' }, color: '#00ff00' })).trails)
+            .toEqual(new Set(['rgba(0, 255, 0, 0.7)']));
+        expect(render(createContext({ japanRain: { headGlow: false } })).heads).toEqual(new Set(['#00ff00']));
+        expect(render(createContext({ color: 'lime' })).trails).toEqual(new Set(['rgba(0, 255, 0, 0.7)']));
+        expect(render(createContext({ color: 'hsl(120, 100%, 50%)' })).trails)
+            .toEqual(new Set(['hsl(120, 100%, 50%)']));
+        expect(render({ ...createContext(), colorMap: palette }).heads).toEqual(new Set(['#123456']));
+        expect(render({ ...createContext({ japanRain: { headGlow: '#ff0000' } }), colorMap: palette }).heads)
+            .toEqual(new Set(['#ff0000']));
+    });
+});
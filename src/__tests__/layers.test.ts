@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+    FrameGenerator,
+    registerPattern,
+    renderFrame,
+    renderFrameToString,
+    unregisterPattern,
+    type ASCIIGroundOptions
+} from '../index';
+import { resolveOptions } from '../options';
+
+declare module '../index' {
+    interface PatternNameMap {
+        'test-low': true
+        'test-high': true
+        'test-off': true
+        'test-clock': true
+        'test-dot': true
+        'test-fade': true
+    }
+}
+
+describe('Layers', () => {
+    let options: ASCIIGroundOptions;
+
+    beforeEach(() => {
+        // Normalized values of 0.25, 0.75 and 0.
+        registerPattern('test-low', () => -0.5);
+        registerPattern('test-high', () => 0.5);
+        registerPattern('test-off', () => -1);
+        registerPattern('test-clock', (_x, _y, time) => time > 1 ? 0.5 : -0.5);
+
+        registerPattern('test-dot', {
+            init: () => null,
+            update: () => {},
+            render: (_state, surface) => surface.drawChar('x', 0, 0, '#ff0000'),
+        });
+
+        registerPattern('test-fade', {
+            init: () => null,
+            update: () => {},
+            render: (_state, surface) => {
+                surface.fill('#000000', 0.1);
+                surface.drawChar('x', 0, 0, '#ff0000');
+            },
+        });
+
+        options = {
+            pattern: 'test-low',
+            characters: ['.', '-', '+', '#'],
+            speed: 1,
+            color: '#00ff00',
+        };
+    });
+
+    afterEach(() => {
+        ['test-low', 'test-high', 'test-off', 'test-clock', 'test-dot', 'test-fade'].forEach(unregisterPattern);
+    });
+
+    it('should keep the larger value and look it up in the characters of its layer', () => {
+        const layer = { pattern: 'test-high' as const, characters: ['a', 'b', 'c', 'd'], color: '#ff0000' };
+
+        expect(renderFrameToString({ ...options, layers: [layer] }, 0, 2, 1)).toBe('dd');
+
+        const frame = renderFrame({ ...options, layers: [{ ...layer, opacity: 0.5 }] }, 0, 2, 1);
+        expect(frame.chars).toEqual(['b', 'b']);
+        expect(frame.colors).toEqual(['#808000', '#808000']);
+    });
+
+    it('should add values before the character lookup', () => {
+        const layers = [{ pattern: 'test-low' as const, blend: 'add' as const }];
+        expect(renderFrameToString({ ...options, layers }, 0, 2, 1)).toBe('++');
+    });
+
+    it('should draw glyphs of stateful layers over noise', () => {
+        const frame = renderFrame({ ...options, layers: [{ pattern: 'test-dot' }] }, 0, 3, 1);
+
+        expect(frame.chars).toEqual(['x', '-', '-']);
+        expect(frame.colors).toEqual(['#ff0000', '#00ff00', '#00ff00']);
+    });
+
+    it('should keep cells of noise layers opaque beneath the fills of a stateful layer', () => {
+        const frame = renderFrame({ ...options, layers: [{ pattern: 'test-fade' }] }, 0, 3, 1);
+
+        expect(frame.fills).toEqual([{ color: '#000000', opacity: 0.1 }]);
+        expect(frame.opaque).toEqual([false, true, true]);
+    });
+
+    it('should only keep cells beneath a mask layer', () => {
+        const layers = [{ pattern: 'test-dot' as const, blend: 'mask' as const }];
+        expect(renderFrameToString({ ...options, layers }, 0, 3, 1)).toBe('-  ');
+    });
+
+    it('should scale the values beneath a multiply layer', () => {
+        const dot: ASCIIGroundOptions = { ...options, pattern: 'test-dot' };
+
+        expect(renderFrameToString({ ...dot, layers: [{ pattern: 'test-low', blend: 'multiply' }] }, 0, 2, 1))
+            .toBe('x ');
+
+        expect(renderFrameToString({ ...dot, layers: [{ pattern: 'test-off', blend: 'multiply' }] }, 0, 2, 1))
+            .toBe('  ');
+
+        expect(renderFrameToString({ ...options, layers: [{ pattern: 'test-off', blend: 'multiply' }] }, 0, 2, 1))
+            .toBe('..');
+    });
+
+    it('should inherit options that a layer does not set', () => {
+        const generator = new FrameGenerator(resolveOptions({
+            ...options,
+            layers: [
+                { pattern: 'test-high' },
+                { pattern: 'test-dot', characters: ['?'] }
+            ],
+        }), 2, 1);
+
+        expect(generator.compute(0).chars).toEqual(['x', '#']);
+
+        generator.updateOptions({ characters: ['1', '2', '3', '4'] });
+        expect(generator.compute(0).chars).toEqual(['x', '4']);
+
+        generator.updateOptions({ layers: [] });
+        expect(generator.compute(0).chars).toEqual(['2', '2']);
+    });
+
+    it('should run layers with a speed of their own on a scaled timeline', () => {
+        const layers = [{ pattern: 'test-clock' as const, speed: 4, characters: ['a', 'b', 'c', 'd'] }];
+
+        expect(renderFrameToString({ ...options, layers }, 200, 1, 1)).toBe('-');
+        expect(renderFrameToString({ ...options, layers }, 500, 1, 1)).toBe('d');
+    });
+
+    it('should seed layers apart from the instance', () => {
+        const perlin: ASCIIGroundOptions = { ...options, pattern: 'perlin', noiseScale: 0.3, seed: 3 };
+        const layered: ASCIIGroundOptions = { ...perlin, pattern: 'test-off', layers: [{ pattern: 'perlin' }] };
+
+        expect(renderFrameToString(layered, 0, 12, 4)).toBe(renderFrameToString({ ...perlin, seed: 4 }, 0, 12, 4));
+        expect(renderFrameToString(layered, 0, 12, 4)).not.toBe(renderFrameToString(perlin, 0, 12, 4));
+    });
+});
@@ -0,0 +1,117 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { FrameGenerator, type ASCIIGroundOptions, type PatternContext } from '../index';
+import { resolveOptions } from '../options';
+import { lifePattern, parseLifeRule, type LifeState } from '../patterns/life';
+import { createPatternContext } from './pattern-context';
+
+describe('Life pattern', () => {
+    const createContext = (options: Partial<ASCIIGroundOptions>, cols = 5, rows = 5) => createPatternContext(
+        { pattern: 'life', characters: ['a', 'b', 'c'], speed: 1, ...options },
+        { cols, rows }
+    );
+
+    /** Generations every state has been advanced by. */
+    const generationsOf = new WeakMap<LifeState, number>();
+
+    /**
+     * Start from the given cells, written as rows of `#` for living and `.` for dead cells.
+     */
+    const start = (cells: string[], options: Partial<ASCIIGroundOptions> = {}) => {
+        const context = createContext(options, cells[0].length, cells.length);
+        const seeded = lifePattern.init(context);
+        seeded.cells.set(cells.join('').split('').map((cell) => cell === '#' ? 1 : 0));
+        seeded.ages.set(seeded.cells);
+        // Carrying the cells over to a grid of the same size counts their neighbors.
+        const state = lifePattern.resize!(seeded, context);
+        lifePattern.update(state, context, 0);
+        return { state, context };
+    };
+
+    const draw = ({ cells, cols }: LifeState) => Array.from(
+        { length: cells.length / cols },
+        (_, row) => Array.from(cells.subarray(row * cols, (row + 1) * cols), (cell) => cell ? '#' : '.').join('')
+    );
+
+    const advance = (state: LifeState, context: PatternContext, generations: number) => {
+        const start = generationsOf.get(state) ?? 0;
+
+        // A tenth of a time unit is one generation.
+        for (let generation = start + 1; generation <= start + generations; generation++)
+            lifePattern.update(state, context, generation / 10);
+
+        generationsOf.set(state, start + generations);
+    };
+
+    it('should parse rules in B/S notation', () => {
+        const highLife = parseLifeRule('b36/s23');
+
+        expect(highLife.born.flatMap((born, count) => born ? [count] : [])).toEqual([3, 6]);
+        expect(highLife.survive.flatMap((survive, count) => survive ? [count] : [])).toEqual([2, 3]);
+        expect(parseLifeRule('S23/B3')).toEqual(parseLifeRule('B3/S23'));
+        expect(() => parseLifeRule('23/3')).toThrow('Invalid life rule "23/3"');
+    });
+
+    it('should run generations by the rule', () => {
+        const { state, context } = start(['.....', '.....', '.###.', '.....', '.....'], { lifeWrap: false });
+
+        advance(state, context, 1);
+        expect(draw(state)).toEqual(['.....', '..#..', '..#..', '..#..', '.....']);
+
+        advance(state, context, 1);
+        expect(draw(state)).toEqual(['.....', '.....', '.###.', '.....', '.....']);
+    });
+
+    it('should wrap around the edges when enabled', () => {
+        const wrapped = start(['.###.', '.....', '.....', '.....', '.....']);
+        const bounded = start(['.###.', '.....', '.....', '.....', '.....'], { lifeWrap: false });
+
+        advance(wrapped.state, wrapped.context, 1);
+        advance(bounded.state, bounded.context, 1);
+
+        expect(draw(wrapped.state)).toEqual(['..#..', '..#..', '.....', '.....', '..#..']);
+        expect(draw(bounded.state)).toEqual(['..#..', '..#..', '.....', '.....', '.....']);
+    });
+
+    it('should seed the grid again once it stops changing', () => {
+        const block = ['.....', '.##..', '.##..', '.....', '.....'];
+        const { state, context } = start(block, { lifeDensity: 0.5 });
+
+        // The first generation is new, the twelve after it repeat it.
+        advance(state, context, 12);
+        expect(draw(state)).toEqual(block);
+
+        advance(state, context, 1);
+        expect(draw(state)).not.toEqual(block);
+    });
+
+    it('should pick characters by age or by neighbors', () => {
+        const drawn = (lifeMapping: 'age' | 'neighbors') => {
+            const { state, context } = start(['.....', '.##..', '.##..', '.....', '.....'], { lifeMapping });
+            advance(state, context, 2);
+
+            const chars: string[] = [];
+            const surface = { cols: 5, rows: 5, fill: () => {}, drawChar: (char: string) => chars.push(char) };
+            lifePattern.render(state, surface, context);
+            return chars.join('');
+        };
+
+        // Every cell of the block has been alive for three generations and has three neighbors.
+        expect(drawn('age')).toBe('cccc');
+        expect(drawn('neighbors')).toBe('bbbb');
+    });
+
+    it('should keep its cells centered across a resize', () => {
+        const options = resolveOptions({ pattern: 'life', characters: ['#'], speed: 1, seed: 3 });
+        const generator = new FrameGenerator(options, 10, 6);
+        const before = generator.compute(0).chars.slice();
+
+        generator.resize(12, 8);
+        const after = generator.compute(0).chars;
+
+        for (let row = 0; row < 6; row++) {
+            for (let col = 0; col < 10; col++)
+                expect(after[(row + 1) * 12 + col + 1]).toBe(before[row * 10 + col]);
+        }
+    });
+});
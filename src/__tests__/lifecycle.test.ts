@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { ASCIIGround, createFullPageBackground, type ASCIIGroundOptions } from '../index';
+
+describe('Lifecycle', () => {
+    let canvas: HTMLCanvasElement;
+    let context: Partial<CanvasRenderingContext2D>;
+    let mediaQuery: MediaQueryList;
+    let disconnect: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        canvas = document.createElement('canvas');
+        canvas.width = 40;
+        canvas.height = 20;
+
+        context = {
+            fillRect: vi.fn(),
+            fillText: vi.fn(),
+            measureText: vi.fn(() => ({ width: 10 } as TextMetrics)),
+        };
+
+        vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(context as CanvasRenderingContext2D);
+        vi.spyOn(performance, 'now').mockReturnValue(0);
+        vi.stubGlobal('requestAnimationFrame', vi.fn(() => 1));
+        vi.stubGlobal('cancelAnimationFrame', vi.fn());
+
+        mediaQuery = Object.assign(new EventTarget(), { matches: false }) as MediaQueryList;
+        vi.stubGlobal('matchMedia', () => mediaQuery);
+        disconnect = vi.fn();
+
+        vi.stubGlobal('IntersectionObserver', class {
+            observe = vi.fn();
+            disconnect = disconnect;
+        });
+    });
+
+    afterEach(() => {
+        document.body.innerHTML = '';
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    const options: ASCIIGroundOptions = {
+        pattern: 'perlin',
+        characters: ['.', '#'],
+        speed: 1,
+        fontSize: 10,
+        interaction: { effect: 'spotlight' },
+    };
+
+    /**
+     * Track the listeners added to the given targets, returning the types of those still attached.
+     */
+    const watchListeners = (...targets: EventTarget[]) => {
+        const spies = targets.map((target) => ({
+            add: vi.spyOn(target, 'addEventListener'),
+            remove: vi.spyOn(target, 'removeEventListener'),
+        }));
+
+        return () => spies.flatMap(({ add, remove }) => add.mock.calls
+            .filter(([type, listener]) => !remove.mock.calls.some((call) => call[0] === type && call[1] === listener))
+            .map(([type]) => type));
+    };
+
+    it('should leave no listeners, observers or animation frames behind', () => {
+        const attached = watchListeners(window, document, mediaQuery);
+        const ascii = new ASCIIGround(canvas, options);
+        ascii.startAnimation();
+
+        expect(attached()).not.toHaveLength(0);
+        ascii.destroy();
+
+        expect(attached()).toEqual([]);
+        expect(disconnect).toHaveBeenCalled();
+        expect(cancelAnimationFrame).toHaveBeenCalledWith(1);
+        expect(ascii.isAnimating).toBe(false);
+    });
+
+    it('should throw when used after being destroyed', () => {
+        const ascii = new ASCIIGround(canvas, options);
+        ascii.destroy();
+
+        const calls = [
+            () => ascii.init(),
+            () => ascii.startAnimation(),
+            () => ascii.stopAnimation(),
+            () => ascii.updateOptions({ speed: 2 }),
+            () => ascii.resize(10, 10),
+            () => ascii.dispatchPointer({ type: 'move', x: 0, y: 0 }),
+            () => ascii.destroy()
+        ];
+
+        for (const call of calls)
+            expect(call).toThrow('ASCIIGround instance has been destroyed.');
+    });
+
+    it('should only remove a canvas it was given when asked to', () => {
+        document.body.appendChild(canvas);
+        new ASCIIGround(canvas, options).destroy();
+        expect(canvas.isConnected).toBe(true);
+
+        new ASCIIGround(canvas, options).destroy({ removeCanvas: true });
+        expect(canvas.isConnected).toBe(false);
+    });
+
+    it('should remove the full page background along with its resize listener', () => {
+        // jsdom adds document listeners of its own when the canvas is inserted, so only the window is watched here.
+        const attached = watchListeners(window, mediaQuery);
+        const background = createFullPageBackground(options);
+        const generated = document.body.querySelector('canvas');
+
+        expect(generated).not.toBeNull();
+        background.destroy();
+
+        expect(document.body.querySelector('canvas')).toBeNull();
+        expect(attached()).toEqual([]);
+        expect(() => window.dispatchEvent(new Event('resize'))).not.toThrow();
+    });
+
+    it('should not leave a full page canvas behind when the options are invalid', () => {
+        expect(() => createFullPageBackground({ ...options, speed: -1 })).toThrow('speed: expected a number');
+        expect(document.body.querySelector('canvas')).toBeNull();
+    });
+
+    it('should keep the full page canvas when removeCanvas is false', () => {
+        createFullPageBackground(options).destroy({ removeCanvas: false });
+        expect(document.body.querySelector('canvas')).not.toBeNull();
+    });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+    ASCIIGround,
+    Mask,
+    registerPattern,
+    renderFrame,
+    renderFrameToString,
+    unregisterPattern,
+    type ASCIIGroundOptions,
+    type MaskOptions
+} from '../index';
+
+declare module '../index' {
+    interface PatternNameMap {
+        'test-level': true
+        'test-drops': true
+    }
+}
+
+/**
+ * Raw pixels where `#` is opaque white and anything else is transparent.
+ */
+function bitmap(rows: string[]): ImageData {
+    const data = new Uint8ClampedArray(rows.length * rows[0].length * 4);
+
+    [...rows.join('')].forEach((cell, index) => {
+        if (cell === '#')
+            data.set([255, 255, 255, 255], index * 4);
+    });
+
+    return { data, width: rows[0].length, height: rows.length, colorSpace: 'srgb' } as ImageData;
+}
+
+describe('Masks', () => {
+    const square: MaskOptions['shape'] = {
+        type: 'image',
+        source: bitmap([
+            '....',
+            '.##.',
+            '.##.',
+            '....'
+        ]),
+    };
+
+    let options: ASCIIGroundOptions;
+    let drops: Array<[number, number]>;
+
+    beforeEach(() => {
+        drops = [];
+        // Maps every cell onto the lightest character, i.e. a normalized value of 0.25.
+        registerPattern('test-level', () => -0.5);
+
+        registerPattern('test-drops', {
+            init: () => null,
+            update: () => {},
+            render: (_state, surface) => drops.forEach(([col, row]) => surface.drawChar('x', col, row, '#00ff00')),
+        });
+
+        options = {
+            pattern: 'test-level',
+            characters: ['.', '-', '+', '#'],
+            speed: 1,
+            color: '#00ff00',
+        };
+    });
+
+    afterEach(() => {
+        unregisterPattern('test-level');
+        unregisterPattern('test-drops');
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('should boost the pattern inside the mask', () => {
+        const text = renderFrameToString({ ...options, mask: { shape: square, strength: 0.25 } }, 0, 4, 4);
+        expect(text).toBe('----\n-++-\n-++-\n----');
+    });
+
+    it('should invert the pattern inside the mask', () => {
+        const text = renderFrameToString({ ...options, mask: { shape: square, effect: 'invert' } }, 0, 4, 4);
+        expect(text).toBe('----\n-##-\n-##-\n----');
+    });
+
+    it('should recolor the pattern inside the mask', () => {
+        const mask: MaskOptions = { shape: square, effect: 'recolor', color: '#ff0000' };
+        const { colors } = renderFrame({ ...options, mask }, 0, 4, 4);
+
+        expect(colors[0]).toBe('#00ff00');
+        expect(colors[5]).toBe('#ff0000');
+        expect(new Set(colors)).toEqual(new Set(['#00ff00', '#ff0000']));
+    });
+
+    it('should blend partially covered cells', () => {
+        const mask = new Mask({ shape: square, effect: 'recolor', color: '#ff0000' }, 2, 2);
+
+        mask.coverage.forEach((coverage) => expect(coverage).toBeCloseTo(0.25, 2));
+        expect(mask.adjustColor('#00ff00', 0)).toBe('#40bf00');
+        expect(mask.adjustColor('hsl(0, 0%, 0%)', 0)).toBe('hsl(0, 0%, 0%)');
+    });
+
+    it('should hold glyphs of stateful patterns inside the mask', () => {
+        const stateful = { ...options, pattern: 'test-drops' as const, mask: { shape: square } };
+        const canvas = document.createElement('canvas');
+        canvas.width = 40;
+        canvas.height = 40;
+
+        const context: Partial<CanvasRenderingContext2D> = {
+            fillRect: vi.fn(),
+            fillText: vi.fn(),
+            measureText: vi.fn(() => ({ width: 10 } as TextMetrics)),
+        };
+
+        vi.spyOn(canvas, 'getContext').mockReturnValue(context as CanvasRenderingContext2D);
+        const ascii = new ASCIIGround(canvas, { ...stateful, fontSize: 10 });
+
+        drops = [[1, 1], [0, 0]];
+        ascii.init();
+        drops = [];
+        vi.mocked(context.fillText!).mockClear();
+        ascii.init();
+
+        // The drop inside the mask stays, the one outside of it is gone.
+        expect(context.fillText).toHaveBeenCalledTimes(1);
+        expect(context.fillText).toHaveBeenCalledWith('x', 10, 10);
+    });
+
+    it('should clear glyphs of stateful patterns inside an inverted mask', () => {
+        drops = [[1, 1], [0, 0]];
+        const mask: MaskOptions = { shape: square, effect: 'invert' };
+        const text = renderFrameToString({ ...options, pattern: 'test-drops', mask }, 0, 4, 4);
+        expect(text).toBe('x   \n    \n    \n    ');
+    });
+
+    it('should rasterize text at a multiple of the grid resolution', () => {
+        const context = {
+            font: '',
+            fillStyle: '',
+            textAlign: '',
+            textBaseline: '',
+            scale: vi.fn(),
+            fillText: vi.fn(),
+            measureText: vi.fn(() => ({ width: 200, actualBoundingBoxAscent: 70, actualBoundingBoxDescent: 0 })),
+            // The left half of the 8 by 4 pixel canvas is opaque.
+            getImageData: vi.fn((_x: number, _y: number, width: number, height: number) => ({
+                data: Uint8ClampedArray.from({ length: width * height * 4 }, (_, index) =>
+                    index % 4 === 3 && (index >> 2) % width < width / 2 ? 255 : 0
+                ),
+            })),
+        };
+
+        vi.stubGlobal('OffscreenCanvas', class {
+            getContext() {
+                return context;
+            }
+        });
+
+        const mask = new Mask({ shape: { type: 'text', text: 'ACME', fontFamily: 'serif' } }, 2, 1, 0.5);
+
+        expect(Array.from(mask.coverage)).toEqual([1, 0]);
+        expect(context.scale).toHaveBeenCalledWith(2, 1);
+        expect(context.fillText).toHaveBeenCalledWith('ACME', 2, expect.any(Number));
+        expect(context.font).toMatch(/^bold 1\.8\d*px serif$/);
+    });
+
+    it('should recompute the mask on resize', () => {
+        const full: MaskOptions = { shape: { type: 'image', source: bitmap(['#']) }, fit: 'stretch' };
+        const canvas = document.createElement('canvas');
+        canvas.width = 20;
+        canvas.height = 10;
+
+        const context: Partial<CanvasRenderingContext2D> = {
+            fillRect: vi.fn(),
+            fillText: vi.fn(),
+            measureText: vi.fn(() => ({ width: 10 } as TextMetrics)),
+        };
+
+        vi.spyOn(canvas, 'getContext').mockReturnValue(context as CanvasRenderingContext2D);
+        const ascii = new ASCIIGround(canvas, { ...options, fontSize: 10, mask: full }).init();
+        ascii.resize(40, 20);
+
+        expect(context.fillText).toHaveBeenLastCalledWith('#', 30, 10);
+        expect(vi.mocked(context.fillText!).mock.calls.every(([char]) => char === '#')).toBe(true);
+    });
+});
@@ -2,7 +2,9 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
 // We need to test the internal PerlinNoise class through the public API
 // since it's not exported. We'll test it indirectly through the ASCIIGround class.
-import { ASCIIGround, type ASCIIGroundOptions } from '../index';
+import { ASCIIGround, PerlinNoise, fractalNoise, type ASCIIGroundOptions, type FractalNoiseSettings } from '../index';
+import { perlinPattern } from '../patterns/perlin';
+import { createPatternContext } from './pattern-context';
 
 describe('PerlinNoise integration', () => {
     let canvas: HTMLCanvasElement;
@@ -79,3 +81,60 @@ describe('PerlinNoise integration', () => {
         });
     });
 });
+
+describe('Noise functions', () => {
+    const samples = (sample: (x: number, y: number, z: number) => number) =>
+        Array.from({ length: 2000 }, (_, index) => sample(index * 0.173, index * 0.291, index * 0.057));
+
+    const fractal: FractalNoiseSettings = { noiseType: 'perlin', octaves: 5, lacunarity: 2, gain: 0.5, warp: 0 };
+
+    const functions: Record<string, (noise: PerlinNoise) => (x: number, y: number, z: number) => number> = {
+        'perlin 2D': (noise) => (x, y) => noise.noise(x, y),
+        'perlin 3D': (noise) => (x, y, z) => noise.noise3(x, y, z),
+        'simplex 3D': (noise) => (x, y, z) => noise.simplex3(x, y, z),
+        'fBm': (noise) => (x, y, z) => fractalNoise(noise, x, y, z, fractal),
+        'simplex fBm': (noise) => (x, y, z) => fractalNoise(noise, x, y, z, { ...fractal, noiseType: 'simplex' }),
+        'domain warping': (noise) => (x, y, z) => fractalNoise(noise, x, y, z, { ...fractal, warp: 2 }),
+    };
+
+    for (const [name, create] of Object.entries(functions)) {
+        it(`should keep ${name} noise within -1 to 1`, () => {
+            const values = samples(create(new PerlinNoise(3)));
+
+            expect(values.every((value) => value >= -1 && value <= 1)).toBe(true);
+            // The range is actually used rather than everything landing near zero.
+            expect(Math.max(...values) - Math.min(...values)).toBeGreaterThan(0.8);
+        });
+
+        it(`should make ${name} noise depend only on the seed`, () => {
+            expect(samples(create(new PerlinNoise(3)))).toEqual(samples(create(new PerlinNoise(3))));
+            expect(samples(create(new PerlinNoise(4)))).not.toEqual(samples(create(new PerlinNoise(3))));
+        });
+    }
+
+    it('should fade fractional octaves in smoothly', () => {
+        const noise = new PerlinNoise(1);
+        const at = (octaves: number) => samples((x, y, z) => fractalNoise(noise, x, y, z, { ...fractal, octaves }));
+        const [two, justOverTwo, three] = [at(2), at(2.01), at(3)];
+
+        expect(Math.max(...two.map((value, index) => Math.abs(value - justOverTwo[index])))).toBeLessThan(0.02);
+        expect(three).not.toEqual(two);
+    });
+});
+
+describe('Perlin pattern', () => {
+    const createContext = (options: Partial<ASCIIGroundOptions> = {}) => createPatternContext(
+        { pattern: 'perlin', characters: ['.'], speed: 1, noiseScale: 0.1, ...options }
+    );
+
+    it('should drift up by a noise unit per unit of time by default', () => {
+        const context = createContext();
+        const { options, perlin } = context;
+
+        expect(perlinPattern(3, 4, 2, context)).toBeCloseTo(fractalNoise(perlin, 0.3, 0.4 + 2, 2, options), 10);
+        expect(perlinPattern(3, 4, 2, createContext({ direction: 'down' })))
+            .toBeCloseTo(fractalNoise(perlin, 0.3, 0.4 - 2, 2, options), 10);
+        expect(perlinPattern(3, 4, 2, createContext({ drift: 0 })))
+            .toBeCloseTo(fractalNoise(perlin, 0.3, 0.4, 2, options), 10);
+    });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { ASCIIGround, FrameGenerator, registerPattern, unregisterPattern, type ASCIIGroundOptions } from '../index';
+import { resolveOptions } from '../options';
+import { FramePacer } from '../rendering/frame-pacer';
+
+declare module '../index' {
+    interface PatternNameMap {
+        'test-frames': true
+    }
+}
+
+describe('Frame pacing', () => {
+    let canvas: HTMLCanvasElement;
+    let context: Partial<CanvasRenderingContext2D>;
+    let frameCallback: FrameRequestCallback | null;
+    let deltas: number[];
+
+    beforeEach(() => {
+        deltas = [];
+
+        registerPattern('test-frames', {
+            init: () => null,
+            update: (_state, { deltaTime }) => deltas.push(deltaTime),
+            render: () => {},
+        });
+
+        canvas = document.createElement('canvas');
+        canvas.width = 100;
+        canvas.height = 100;
+        frameCallback = null;
+
+        context = {
+            font: '',
+            fillRect: vi.fn(),
+            fillText: vi.fn(),
+            measureText: vi.fn(() => ({ width: 10 } as TextMetrics)),
+        };
+
+        vi.spyOn(canvas, 'getContext').mockReturnValue(context as CanvasRenderingContext2D);
+        vi.spyOn(performance, 'now').mockReturnValue(0);
+
+        vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+            frameCallback = callback;
+            return 1;
+        });
+
+        vi.stubGlobal('cancelAnimationFrame', vi.fn());
+    });
+
+    afterEach(() => {
+        unregisterPattern('test-frames');
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    const options: ASCIIGroundOptions = { pattern: 'test-frames', characters: ['#'], speed: 2, fontSize: 10 };
+
+    const play = (ascii: ASCIIGround, fps: number, seconds: number) => {
+        ascii.startAnimation();
+
+        for (let frame = 1; frame <= fps * seconds; frame++)
+            frameCallback!((frame * 1000) / fps);
+    };
+
+    it('should cap the frame rate at maxFps', () => {
+        play(new ASCIIGround(canvas, { ...options, maxFps: 30 }), 120, 1);
+
+        expect(deltas).toHaveLength(30);
+        // Frame times are scaled by speed.
+        expect(deltas.slice(1).every((delta) => Math.abs(delta - 2 / 30) < 1e-9)).toBe(true);
+    });
+
+    it('should render every frame without maxFps', () => {
+        play(new ASCIIGround(canvas, options), 120, 1);
+        expect(deltas).toHaveLength(120);
+    });
+
+    it('should move japan-rain at the same pace on any refresh rate', () => {
+        // Slow enough for no drop to reach the bottom, where it would start over at a random row.
+        const rain = resolveOptions({ pattern: 'japan-rain', characters: ['#'], speed: 0.1, seed: 5 });
+
+        const cellsAfterOneSecond = (fps: number) => {
+            const generator = new FrameGenerator(rain, 8, 50);
+
+            for (let frame = 0; frame <= fps; frame++)
+                generator.compute((frame / fps) * rain.speed);
+
+            return generator.frame.chars.map((char) => char !== '');
+        };
+
+        expect(cellsAfterOneSecond(120)).toEqual(cellsAfterOneSecond(60));
+    });
+
+    it.each(['rain', 'snow', 'starfield'] as const)('should move %s the same on any refresh rate', (pattern) => {
+        const particles = resolveOptions({ pattern, characters: ['.', 'o', 'O'], speed: 1, seed: 3 });
+
+        const charsAfterOneSecond = (fps: number) => {
+            const generator = new FrameGenerator(particles, 30, 20);
+
+            for (let frame = 0; frame <= fps; frame++)
+                generator.compute(frame / fps);
+
+            return generator.frame.chars;
+        };
+
+        expect(charsAfterOneSecond(144)).toEqual(charsAfterOneSecond(50));
+    });
+
+    it('should enlarge cells while frames are over budget', () => {
+        let clock = 0;
+        // Every frame appears to take 20ms, more than the 60 fps budget.
+        vi.spyOn(performance, 'now').mockImplementation(() => clock += 20);
+
+        const ascii = new ASCIIGround(canvas, { ...options, adaptiveQuality: { reduce: 'cellSize' } });
+        play(ascii, 60, 0.5);
+
+        expect(context.font).toBe('12.5px monospace');
+    });
+
+    describe('adaptive quality', () => {
+        const record = (pacer: FramePacer, duration: number, frames: number) =>
+            Array.from({ length: frames }, () => pacer.record(duration)).some(Boolean);
+
+        it('should halve the frame rate down to its minimum and recover', () => {
+            const pacer = new FramePacer(undefined, { minFps: 20 });
+
+            record(pacer, 30, 30);
+            expect(pacer.fps).toBe(30);
+
+            record(pacer, 30, 30);
+            expect(pacer.fps).toBe(30);
+
+            record(pacer, 60, 60);
+            expect(pacer.fps).toBe(20);
+
+            record(pacer, 5, 90);
+            expect(pacer.fps).toBe(20);
+
+            record(pacer, 5, 30);
+            expect(pacer.fps).toBe(40);
+        });
+
+        it('should grow cells up to their largest scale', () => {
+            const pacer = new FramePacer(60, { reduce: 'cellSize', maxCellScale: 1.5 });
+
+            expect(record(pacer, 30, 30)).toBe(true);
+            expect(pacer.cellScale).toBe(1.25);
+
+            record(pacer, 30, 90);
+            expect(pacer.cellScale).toBe(1.5);
+            expect(pacer.fps).toBe(60);
+
+            record(pacer, 1, 120);
+            expect(pacer.cellScale).toBe(1.25);
+        });
+
+        it('should skip frames that arrive before their interval', () => {
+            const pacer = new FramePacer(50);
+            const rendered = [0, 10, 19, 30, 40, 100].filter((time) => pacer.shouldRender(time));
+
+            expect(rendered).toEqual([0, 19, 40, 100]);
+        });
+    });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+    ASCIIGround,
+    FrameGenerator,
+    createColorMap,
+    registerPattern,
+    unregisterPattern,
+    type ASCIIGroundOptions
+} from '../index';
+import { formatColor, parseColor } from '../color';
+import { resolveOptions } from '../options';
+
+declare module '../index' {
+    interface PatternNameMap {
+        'test-columns': true
+    }
+}
+
+describe('Colors', () => {
+    it('should parse hex colors', () => {
+        expect(parseColor('#f00')).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+        expect(parseColor('#00ff0080')).toEqual({ r: 0, g: 255, b: 0, a: 128 / 255 });
+    });
+
+    it('should parse rgb() and rgba() colors', () => {
+        expect(parseColor('rgb(1, 2, 3)')).toEqual({ r: 1, g: 2, b: 3, a: 1 });
+        expect(parseColor('rgba(0,255,0,0.7)')).toEqual({ r: 0, g: 255, b: 0, a: 0.7 });
+    });
+
+    it('should parse named colors', () => {
+        expect(parseColor('Tomato')).toEqual({ r: 255, g: 99, b: 71, a: 1 });
+        expect(parseColor('transparent')).toEqual({ r: 0, g: 0, b: 0, a: 0 });
+    });
+
+    it('should reject unsupported colors', () => {
+        expect(() => parseColor('hsl(0, 100%, 50%)')).toThrow('Unsupported color "hsl(0, 100%, 50%)"');
+        expect(() => parseColor('tomatoes')).toThrow('expected a hex, rgb() or named color.');
+    });
+
+    it('should format opaque and translucent colors', () => {
+        expect(formatColor({ r: 255, g: 128, b: 0, a: 1 })).toBe('#ff8000');
+        expect(formatColor({ r: 255, g: 128, b: 0, a: 0.5 })).toBe('rgba(255, 128, 0, 0.5)');
+    });
+});
+
+describe('createColorMap', () => {
+    it('should split the value range between discrete colors', () => {
+        const colorMap = createColorMap(['#000', '#888', '#fff']);
+        expect(colorMap(0, 0, 0, 1, 1)).toBe('#000');
+        expect(colorMap(0.5, 0, 0, 1, 1)).toBe('#888');
+        expect(colorMap(1, 0, 0, 1, 1)).toBe('#fff');
+    });
+
+    it('should interpolate gradients between stops', () => {
+        const colorMap = createColorMap({ type: 'gradient', stops: ['#000000', '#ffffff'] });
+        expect(colorMap(0, 0, 0, 1, 1)).toBe('#000000');
+        expect(colorMap(0.5, 0, 0, 1, 1)).toBe('#808080');
+        expect(colorMap(1, 0, 0, 1, 1)).toBe('#ffffff');
+    });
+
+    it('should respect explicit stop offsets', () => {
+        const colorMap = createColorMap({
+            type: 'gradient',
+            stops: [{ offset: 0.5, color: '#ff0000' }, { offset: 1, color: '#0000ff' }],
+        });
+
+        expect(colorMap(0.2, 0, 0, 1, 1)).toBe('#ff0000');
+        expect(colorMap(1, 0, 0, 1, 1)).toBe('#0000ff');
+    });
+
+    it('should map rows and columns', () => {
+        const byRow = createColorMap({ type: 'discrete', colors: ['#000', '#fff'], source: 'row' });
+        const byColumn = createColorMap({ type: 'gradient', stops: ['#000000', '#ffffff'], source: 'column' });
+        expect(byRow(1, 0, 0, 10, 10)).toBe('#000');
+        expect(byRow(0, 0, 9, 10, 10)).toBe('#fff');
+        expect(byColumn(0, 10, 0, 11, 1)).toBe('#ffffff');
+    });
+
+    it('should pass callbacks through', () => {
+        const callback = () => 'red';
+        expect(createColorMap(callback)).toBe(callback);
+    });
+
+    it('should reject empty palettes', () => {
+        expect(() => createColorMap([])).toThrow('Palette needs at least one color.');
+        expect(() => createColorMap({ type: 'gradient', stops: [] })).toThrow('at least one color stop');
+    });
+});
+
+describe('Palette rendering', () => {
+    let canvas: HTMLCanvasElement;
+    let mockContext: Partial<CanvasRenderingContext2D>;
+    let fillStyles: string[];
+
+    const options: ASCIIGroundOptions = {
+        pattern: 'test-columns',
+        characters: ['.'],
+        speed: 1,
+        fontSize: 10,
+    };
+
+    beforeEach(() => {
+        canvas = document.createElement('canvas');
+        canvas.width = 40;
+        canvas.height = 10;
+        fillStyles = [];
+
+        mockContext = {
+            fillStyle: '',
+            font: '',
+            textBaseline: 'top' as CanvasTextBaseline,
+            fillRect: vi.fn(),
+            fillText: vi.fn(() => { fillStyles.push(mockContext.fillStyle as string); }),
+            measureText: vi.fn(() => ({ width: 10 } as TextMetrics)),
+        };
+
+        vi.spyOn(canvas, 'getContext').mockReturnValue(mockContext as CanvasRenderingContext2D);
+        registerPattern('test-columns', (x) => (x / 3) * 2 - 1);
+    });
+
+    afterEach(() => {
+        unregisterPattern('test-columns');
+        vi.restoreAllMocks();
+    });
+
+    it('should use the text color without a palette', () => {
+        new ASCIIGround(canvas, { ...options, color: '#123456' }).init();
+        expect(new Set(fillStyles)).toEqual(new Set(['#123456']));
+    });
+
+    it('should color each cell from the palette', () => {
+        new ASCIIGround(canvas, { ...options, palette: ['#000', '#111', '#222', '#333'] }).init();
+
+        expect(fillStyles).toEqual(['#000', '#111', '#222', '#333']);
+    });
+
+    it('should apply palette updates', () => {
+        const ascii = new ASCIIGround(canvas, options).init();
+        fillStyles = [];
+        ascii.updateOptions({ palette: () => '#abcdef' });
+        expect(new Set(fillStyles)).toEqual(new Set(['#abcdef']));
+    });
+
+    it('should cycle the palette over time', () => {
+        const generator = new FrameGenerator(
+            resolveOptions({ ...options, palette: ['#000', '#111', '#222', '#333'], paletteCycle: 0.25 }),
+            4,
+            1
+        );
+
+        expect(generator.compute(0).colors).toEqual(['#000', '#111', '#222', '#333']);
+        // Values past the end of the palette run back along it.
+        expect(generator.compute(1).colors).toEqual(['#111', '#222', '#333', '#333']);
+        expect(generator.compute(2).colors).toEqual(['#222', '#333', '#333', '#222']);
+    });
+
+    it('should color japan-rain through the palette', () => {
+        canvas.height = 200;
+        const palette = vi.fn(() => '#ff00ff');
+        new ASCIIGround(canvas, { ...options, pattern: 'japan-rain', rainDensity: 1, palette }).init();
+
+        expect(palette).toHaveBeenCalled();
+        expect(new Set(fillStyles)).toEqual(new Set(['#ff00ff']));
+    });
+});
@@ -0,0 +1,182 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+    FrameGenerator,
+    ParticleSystem,
+    type ASCIIGroundOptions,
+    type Particle
+} from '../index';
+import { resolveOptions } from '../options';
+import { snowPattern } from '../patterns/snow';
+import { starfieldPattern } from '../patterns/starfield';
+import { createPatternContext } from './pattern-context';
+
+describe('Particles', () => {
+    const createContext = (options: Partial<ASCIIGroundOptions> = {}, deltaTime = 1) => createPatternContext(
+        { pattern: 'snow', characters: ['.', 'o', 'O'], speed: 1, ...options },
+        { deltaTime }
+    );
+
+    const particle = (fields: Partial<Particle>): Particle => ({
+        x: 0, y: 0, vx: 0, vy: 0, age: 0, lifetime: Infinity, ...fields,
+    });
+
+    describe('ParticleSystem', () => {
+        it('should move particles by their velocity and replace them once gone', () => {
+            const replaced: Particle[] = [];
+
+            const system = new ParticleSystem<Particle>({
+                spawn: (_context, previous) => {
+                    if (previous)
+                        replaced.push(previous);
+
+                    return particle({ x: 5, y: 0, vy: 4 });
+                },
+            });
+
+            system.setCount(2, createContext());
+            system.particles[1] = particle({ x: 5, y: 0, vy: 4, lifetime: 1.5 });
+
+            system.update(createContext());
+            expect(system.particles.map(({ y, age }) => [y, age])).toEqual([[4, 1], [4, 1]]);
+
+            system.update(createContext());
+            expect(system.particles.map(({ y }) => y)).toEqual([8, 0]);
+            expect(replaced).toHaveLength(1);
+
+            system.update(createContext());
+            expect(system.particles.map(({ y }) => y)).toEqual([0, 4]);
+            expect(replaced).toHaveLength(2);
+        });
+
+        it('should let particles come in from outside the grid', () => {
+            const system = new ParticleSystem<Particle>({ spawn: () => particle({ x: 5, y: -3, vy: 2 }) });
+            system.setCount(1, createContext());
+            system.update(createContext());
+
+            expect(system.particles[0].y).toBe(-1);
+        });
+
+        it('should wrap particles around the sides when asked to', () => {
+            const system = new ParticleSystem<Particle>({ spawn: () => particle({ x: 9, y: 5, vx: 3 }), wrapX: true });
+            system.setCount(1, createContext());
+            system.update(createContext());
+
+            expect(system.particles[0].x).toBe(2);
+        });
+
+        it('should drop particles beyond the count', () => {
+            const system = new ParticleSystem<Particle>({ spawn: () => particle({}) });
+            system.setCount(5, createContext());
+            system.setCount(2.7, createContext());
+
+            expect(system.particles).toHaveLength(2);
+        });
+
+        it('should draw particles inside the grid by their value', () => {
+            const system = new ParticleSystem<Particle & { value: number }>({
+                spawn: () => ({ ...particle({}), value: 0 }),
+            });
+
+            system.particles = [
+                { ...particle({ x: 1.5, y: 2.2 }), value: 0 },
+                { ...particle({ x: 3, y: 4 }), value: 0.5 },
+                { ...particle({ x: 4, y: 4 }), value: 1 },
+                { ...particle({ x: -1, y: 4 }), value: 1 }
+            ];
+
+            const drawn: Array<[string, number, number]> = [];
+            const surface = {
+                cols: 10,
+                rows: 10,
+                fill: () => {},
+                drawChar: (char: string, col: number, row: number) => drawn.push([char, col, row]),
+            };
+
+            system.render(surface, createContext(), ({ value }) => value);
+            expect(drawn).toEqual([['.', 1, 2], ['o', 3, 4], ['O', 4, 4]]);
+        });
+    });
+
+    describe('Starfield pattern', () => {
+        it('should move stars away from the center', () => {
+            const context = createContext({ pattern: 'starfield', starDensity: 0.2 }, 0.1);
+            const state = starfieldPattern.init(context);
+            const before = state.stars.particles.map((star) => ({ ...star }));
+
+            starfieldPattern.update(state, context, 0);
+            starfieldPattern.update(state, context, 0.2);
+
+            state.stars.particles.forEach((star, index) => {
+                // Stars that flew past the viewer were replaced with far away ones.
+                if (star.z > before[index].z)
+                    return;
+
+                const distance = Math.hypot(star.x - 5, star.y - 5);
+                const previousDistance = Math.hypot(before[index].x - 5, before[index].y - 5);
+                expect(distance).toBeGreaterThanOrEqual(previousDistance);
+                expect(star.z).toBeCloseTo(before[index].z - 0.2);
+            });
+        });
+
+        it('should keep its stars around the center across a resize', () => {
+            const context = createContext({ pattern: 'starfield' });
+            const state = starfieldPattern.init(context);
+            const [star] = state.stars.particles;
+            const { x, y } = star;
+
+            const resized = starfieldPattern.resize!(state, { ...context, cols: 20, rows: 14 });
+            expect([star.x, star.y]).toEqual([x + 5, y + 2]);
+            expect([resized.cols, resized.rows]).toEqual([20, 14]);
+        });
+    });
+
+    describe('Snow pattern', () => {
+        /**
+         * Let the flakes fall for a while, returning how far those still in the grid moved.
+         */
+        const fallFor = (options: Partial<ASCIIGroundOptions>) => {
+            const context = createContext({ snowDensity: 0.2, ...options }, 0.05);
+            const state = snowPattern.init(context);
+            const before = new Map(state.flakes.particles.map((flake) => [flake, { ...flake }]));
+
+            for (let frame = 0; frame <= 10; frame++)
+                snowPattern.update(state, context, frame * 0.05);
+
+            return state.flakes.particles
+                .filter((flake) => before.has(flake))
+                // Flakes wrap around the ten columns, so sideways moves are taken the short way around.
+                .map((flake) => [((flake.x - before.get(flake)!.x + 15) % 10) - 5, flake.y - before.get(flake)!.y]);
+        };
+
+        const mean = (moves: number[][], axis: number) =>
+            moves.reduce((sum, move) => sum + move[axis], 0) / moves.length;
+
+        it('should fall by gravity and drift with the wind', () => {
+            const still = fallFor({ snowGravity: 6 });
+            const windy = fallFor({ snowGravity: 6, snowWind: 4 });
+            expect(mean(still, 1)).toBeGreaterThan(1);
+            expect(mean(windy, 0)).toBeGreaterThan(mean(still, 0) + 1);
+        });
+
+        it('should rise with negative gravity', () => {
+            const rising = fallFor({ snowGravity: -6 });
+            expect(rising).not.toHaveLength(0);
+            expect(rising.every(([, dy]) => dy < 0)).toBe(true);
+        });
+
+        it('should keep as many flakes as the density asks for', () => {
+            const generator = new FrameGenerator(
+                resolveOptions({ pattern: 'snow', characters: ['*'], speed: 1, snowDensity: 0.1, seed: 2 }),
+                20,
+                10
+            );
+
+            generator.compute(0);
+            const drawn = generator.compute(0.5).chars.filter((char) => char === '*').length;
+
+            expect(drawn).toBeGreaterThan(0);
+            expect(drawn).toBeLessThanOrEqual(20);
+        });
+    });
+});
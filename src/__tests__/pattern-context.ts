@@ -0,0 +1,23 @@
+import { PerlinNoise, createRandom, type ASCIIGroundOptions, type PatternContext } from '../index';
+import { resolveOptions } from '../options';
+
+/**
+ * Create the context a pattern is run with, using a fixed seed for its noise and randomness.
+ * `grid` overrides the size of the grid and the time passed since the previous frame.
+ */
+export function createPatternContext(
+    options: ASCIIGroundOptions,
+    grid: Partial<Omit<PatternContext, 'options'>> = {}
+): PatternContext {
+    return {
+        options: resolveOptions(options),
+        cols: 10,
+        rows: 10,
+        cellAspect: 1,
+        deltaTime: 0,
+        perlin: new PerlinNoise(1),
+        random: createRandom(1),
+        colorMap: null,
+        ...grid,
+    };
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+    ASCIIGround,
+    getPattern,
+    getPatternNames,
+    registerPattern,
+    unregisterPattern,
+    type ASCIIGroundOptions,
+    type NoiseFunction,
+    type PatternSurface
+} from '../index';
+
+declare module '../index' {
+    interface PatternNameMap {
+        'test-gradient': true
+        'test-counter': true
+    }
+}
+
+describe('Pattern registry', () => {
+    let canvas: HTMLCanvasElement;
+    let mockContext: Partial<CanvasRenderingContext2D>;
+
+    beforeEach(() => {
+        canvas = document.createElement('canvas');
+        canvas.width = 100;
+        canvas.height = 60;
+
+        mockContext = {
+            fillStyle: '',
+            font: '',
+            textBaseline: 'top' as CanvasTextBaseline,
+            fillRect: vi.fn(),
+            fillText: vi.fn(),
+            measureText: vi.fn(() => ({ width: 10 } as TextMetrics)),
+        };
+
+        vi.spyOn(canvas, 'getContext').mockReturnValue(mockContext as CanvasRenderingContext2D);
+    });
+
+    afterEach(() => {
+        unregisterPattern('test-gradient');
+        unregisterPattern('test-counter');
+        vi.restoreAllMocks();
+    });
+
+    it('should register the built-in patterns', () => {
+        expect(getPatternNames()).toEqual(
+            expect.arrayContaining(['perlin', 'wave', 'rain', 'static', 'japan-rain'])
+        );
+    });
+
+    it('should throw for unknown patterns', () => {
+        expect(() => getPattern('missing')).toThrow('Unknown pattern "missing".');
+
+        const options = { pattern: 'missing', characters: ['.'], speed: 1 } as unknown as ASCIIGroundOptions;
+        expect(() => new ASCIIGround(canvas, options)).toThrow('pattern: unknown pattern "missing", expected one of');
+    });
+
+    it('should render a custom noise function', () => {
+        const noise = vi.fn((x: number) => (x < 5 ? -1 : 1));
+        registerPattern('test-gradient', noise);
+
+        new ASCIIGround(canvas, { pattern: 'test-gradient', characters: ['.', '#'], speed: 1 }).init();
+
+        expect(noise).toHaveBeenCalledTimes(50);
+        expect(mockContext.fillText).toHaveBeenCalledWith('.', 0, 0);
+        expect(mockContext.fillText).toHaveBeenCalledWith('#', 50, 0);
+    });
+
+    it('should pass resolved options to noise functions', () => {
+        const noise = vi.fn<NoiseFunction>(() => 0);
+        registerPattern('test-gradient', noise);
+
+        new ASCIIGround(canvas, { pattern: 'test-gradient', characters: ['.'], speed: 1, noiseScale: 0.5 }).init();
+
+        const context = noise.mock.calls[0][3];
+        expect(context.options.noiseScale).toBe(0.5);
+        expect(context.options.fontSize).toBe(12);
+        expect(context.cols).toBe(10);
+        expect(context.rows).toBe(5);
+    });
+
+    it('should drive stateful patterns through their hooks', () => {
+        const init = vi.fn(() => ({ frames: 0 }));
+        const update = vi.fn((state: { frames: number }) => { state.frames++; });
+
+        const render = vi.fn((state: { frames: number }, surface: PatternSurface) => {
+            surface.drawChar(String(state.frames), 1, 2, '#fff');
+        });
+
+        registerPattern('test-counter', { init, update, render });
+        const ascii = new ASCIIGround(canvas, { pattern: 'test-counter', characters: [], speed: 1 }).init();
+
+        expect(init).toHaveBeenCalledTimes(1);
+        expect(mockContext.fillText).toHaveBeenLastCalledWith('1', 10, 24);
+        expect(mockContext.fillStyle).toBe('#fff');
+
+        ascii.resize(200, 120);
+        expect(init).toHaveBeenCalledTimes(2);
+        expect(mockContext.fillText).toHaveBeenLastCalledWith('1', 10, 24);
+    });
+
+    it('should switch to a registered pattern on updateOptions', () => {
+        const noise = vi.fn(() => 1);
+        registerPattern('test-gradient', noise);
+
+        const ascii = new ASCIIGround(canvas, { pattern: 'perlin', characters: ['.', '#'], speed: 1 }).init();
+        ascii.updateOptions({ pattern: 'test-gradient' });
+
+        expect(noise).toHaveBeenCalled();
+        expect(mockContext.fillText).toHaveBeenLastCalledWith('#', 90, 48);
+    });
+});
@@ -0,0 +1,34 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import type { ASCIIGroundOptions } from '../index';
+import { plasmaPattern } from '../patterns/plasma';
+import { createPatternContext } from './pattern-context';
+
+describe('Plasma pattern', () => {
+    const createContext = (options: Partial<ASCIIGroundOptions> = {}) => createPatternContext(
+        { pattern: 'plasma', characters: ['.'], speed: 1, ...options },
+        { cols: 40, rows: 20, cellAspect: 0.5 }
+    );
+
+    it('should stay within the noise range', () => {
+        const context = createContext({ frequency: 3 });
+
+        for (let y = 0; y < 20; y++) {
+            for (let x = 0; x < 40; x++) {
+                const value = plasmaPattern(x, y, x * 0.37, context);
+                expect(value).toBeGreaterThanOrEqual(-1);
+                expect(value).toBeLessThanOrEqual(1);
+            }
+        }
+    });
+
+    it('should change over time and drift in direction', () => {
+        const left = createContext({ direction: 'left' });
+        const right = createContext({ direction: 'right' });
+
+        expect(plasmaPattern(3, 4, 0, left)).toBe(plasmaPattern(3, 4, 0, right));
+        expect(plasmaPattern(3, 4, 1, left)).not.toBe(plasmaPattern(3, 4, 0, left));
+        expect(plasmaPattern(3, 4, 1, left)).not.toBe(plasmaPattern(3, 4, 1, right));
+    });
+
+});
@@ -0,0 +1,88 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { FrameGenerator, type ASCIIGroundOptions } from '../index';
+import { resolveOptions, resolveWind } from '../options';
+import { rainPattern } from '../patterns/rain';
+import { createPatternContext } from './pattern-context';
+
+describe('Rain pattern', () => {
+    const createContext = (options: Partial<ASCIIGroundOptions> = {}, deltaTime = 0.05) => createPatternContext(
+        { pattern: 'rain', characters: ['.', '|'], speed: 1, ...options },
+        { cols: 40, rows: 20, cellAspect: 0.5, deltaTime }
+    );
+
+    it('should have as many drops as rainDensity asks for', () => {
+        const count = (rainDensity: number) => rainPattern.init(createContext({ rainDensity })).drops.particles.length;
+
+        expect(count(0)).toBe(0);
+        expect(count(0.5)).toBe(20);
+        expect(count(1)).toBe(40);
+    });
+
+    it('should give every drop a speed of its own', () => {
+        const { drops } = rainPattern.init(createContext({ rainDensity: 1 }));
+        const speeds = new Set(drops.particles.map(({ vy }) => vy));
+
+        expect(speeds.size).toBe(drops.particles.length);
+    });
+
+    it('should fall at the wind angle', () => {
+        const slant = (options: Partial<ASCIIGroundOptions>) => rainPattern.init(createContext(options)).drops.particles
+            .map(({ vx, vy }) => vx * 0.5 / vy);
+
+        slant({}).forEach((ratio) => expect(ratio).toBe(0));
+        slant({ wind: 30 }).forEach((ratio) => expect(ratio).toBeCloseTo(Math.tan(Math.PI / 6)));
+        slant({ wind: -45 }).forEach((ratio) => expect(ratio).toBeCloseTo(-1));
+    });
+
+    it('should take the wind angle from the deprecated rainDirection', () => {
+        const options: ASCIIGroundOptions = { pattern: 'rain', characters: [], speed: 1 };
+
+        expect(resolveWind(options)).toBe(0);
+        expect(resolveWind({ ...options, rainDirection: 'diagonal-right' })).toBe(45);
+        expect(resolveWind({ ...options, rainDirection: 'diagonal-left', wind: 10 })).toBe(10);
+    });
+
+    it('should follow changes of the deprecated rainDirection', () => {
+        const generator = new FrameGenerator(
+            resolveOptions({ pattern: 'rain', characters: ['|'], speed: 1, rainDirection: 'diagonal-right' }),
+            10,
+            10
+        );
+
+        generator.updateOptions({ rainDirection: 'diagonal-left' });
+        expect(resolveWind(generator.options)).toBe(-45);
+
+        generator.updateOptions({ wind: 20, rainDirection: 'vertical' });
+        expect(resolveWind(generator.options)).toBe(20);
+    });
+
+    it('should splash on the floor row', () => {
+        const generator = new FrameGenerator(
+            resolveOptions({ pattern: 'rain', characters: ['|'], speed: 1, seed: 4, rainSplash: ['o'], rainFloor: 5 }),
+            20,
+            10
+        );
+
+        const rows = new Set<number>();
+
+        for (let frame = 0; frame <= 10; frame++) {
+            const { chars } = generator.compute(frame * 0.05);
+            chars.forEach((char, index) => char === 'o' && rows.add(Math.floor(index / 20)));
+            // Drops never fall through the floor.
+            expect(chars.slice(4 * 20).some((char) => char === '|')).toBe(false);
+        }
+
+        expect([...rows]).toEqual([4]);
+    });
+
+    it('should not splash without splash characters', () => {
+        const context = createContext({ rainDensity: 1 });
+        const state = rainPattern.init(context);
+
+        for (let frame = 0; frame <= 20; frame++)
+            rainPattern.update(state, context, frame * 0.05);
+
+        expect(state.splashes).toEqual([]);
+    });
+});
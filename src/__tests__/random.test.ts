@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { ASCIIGround, PerlinNoise, createRandom, type ASCIIGroundOptions } from '../index';
+
+describe('createRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+        const a = createRandom(42);
+        const b = createRandom(42);
+        const sequenceA = Array.from({ length: 10 }, a);
+        const sequenceB = Array.from({ length: 10 }, b);
+        expect(sequenceA).toEqual(sequenceB);
+    });
+
+    it('should produce different sequences for different seeds', () => {
+        expect(createRandom(1)()).not.toBe(createRandom(2)());
+    });
+
+    it('should stay within the range of 0 to 1', () => {
+        const random = createRandom(7);
+
+        for (let i = 0; i < 1000; i++) {
+            const value = random();
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(1);
+        }
+    });
+});
+
+describe('PerlinNoise seeding', () => {
+    it('should be deterministic for a given seed', () => {
+        expect(new PerlinNoise(3).noise(1.3, 2.7)).toBe(new PerlinNoise(3).noise(1.3, 2.7));
+    });
+
+    it('should vary with the seed', () => {
+        const samples = (seed: number) => {
+            const perlin = new PerlinNoise(seed);
+            return Array.from({ length: 8 }, (_, i) => perlin.noise(i * 0.37, i * 0.61));
+        };
+
+        expect(samples(1)).not.toEqual(samples(2));
+    });
+});
+
+describe('Seeded rendering', () => {
+    let canvas: HTMLCanvasElement;
+    let mockContext: Partial<CanvasRenderingContext2D>;
+
+    beforeEach(() => {
+        canvas = document.createElement('canvas');
+        canvas.width = 200;
+        canvas.height = 120;
+
+        mockContext = {
+            fillStyle: '',
+            font: '',
+            textBaseline: 'top' as CanvasTextBaseline,
+            fillRect: vi.fn(),
+            fillText: vi.fn(),
+            measureText: vi.fn(() => ({ width: 10 } as TextMetrics)),
+        };
+
+        vi.spyOn(canvas, 'getContext').mockReturnValue(mockContext as CanvasRenderingContext2D);
+        vi.spyOn(performance, 'now').mockReturnValue(1000);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    const renderCalls = (options: ASCIIGroundOptions) => {
+        vi.mocked(mockContext.fillText!).mockClear();
+        new ASCIIGround(canvas, options).init();
+        return vi.mocked(mockContext.fillText!).mock.calls;
+    };
+
+    it.each(['static', 'japan-rain', 'perlin'] as const)('should render %s identically for a seed', (pattern) => {
+        const options: ASCIIGroundOptions = { pattern, characters: [' ', '.', '*', '#'], speed: 1, seed: 1234 };
+        expect(renderCalls(options)).toEqual(renderCalls(options));
+    });
+
+    it('should not call Math.random when seeded', () => {
+        const spy = vi.spyOn(Math, 'random');
+        renderCalls({ pattern: 'static', characters: ['.', '#'], speed: 1, seed: 1 });
+        renderCalls({ pattern: 'japan-rain', characters: [], speed: 1, seed: 1 });
+        expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should reseed when the seed option is updated', () => {
+        const options: ASCIIGroundOptions = { pattern: 'static', characters: [' ', '.', '*', '#'], speed: 1, seed: 5 };
+        const expected = renderCalls(options);
+        const ascii = new ASCIIGround(canvas, { ...options, seed: 6 });
+
+        vi.mocked(mockContext.fillText!).mockClear();
+        ascii.updateOptions({ seed: 5 });
+        expect(vi.mocked(mockContext.fillText!).mock.calls).toEqual(expected);
+    });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { ASCIIGround, type ASCIIGroundOptions } from '../index';
+import { CanvasRenderer, type CanvasRendererSettings } from '../rendering/canvas-renderer';
+import { CellBuffer } from '../rendering/cell-buffer';
+
+function createMockContext(): Partial<CanvasRenderingContext2D> {
+    return {
+        fillStyle: '',
+        font: '',
+        textBaseline: 'top' as CanvasTextBaseline,
+        fillRect: vi.fn(),
+        fillText: vi.fn(),
+        clearRect: vi.fn(),
+        drawImage: vi.fn(),
+        save: vi.fn(),
+        restore: vi.fn(),
+        beginPath: vi.fn(),
+        rect: vi.fn(),
+        clip: vi.fn(),
+        measureText: vi.fn(() => ({ width: 10 } as TextMetrics)),
+    };
+}
+
+describe('CellBuffer', () => {
+    it('should store cells row by row and ignore cells outside of the grid', () => {
+        const buffer = new CellBuffer();
+        buffer.resize(3, 2);
+        buffer.set(2, 1, '#', 'red');
+        buffer.set(3, 0, '!', 'red');
+        buffer.set(0, -1, '!', 'red');
+
+        expect(buffer.chars).toEqual(['', '', '', '', '', '#']);
+        expect(buffer.colors[5]).toBe('red');
+    });
+
+    it('should clear cells and fills', () => {
+        const buffer = new CellBuffer();
+        buffer.resize(2, 2);
+        buffer.set(0, 0, '#', 'red');
+        buffer.fills.push({ color: 'black', opacity: 1 });
+        buffer.clear();
+
+        expect(buffer.chars).toEqual(['', '', '', '']);
+        expect(buffer.fills).toEqual([]);
+    });
+});
+
+describe('CanvasRenderer', () => {
+    let context: Partial<CanvasRenderingContext2D>;
+    let settings: CanvasRendererSettings;
+    let frame: CellBuffer;
+
+    beforeEach(() => {
+        context = createMockContext();
+        frame = new CellBuffer();
+        frame.resize(4, 2);
+
+        settings = {
+            width: 40,
+            height: 20,
+            font: '10px monospace',
+            cellWidth: 10,
+            cellHeight: 10,
+            backgroundColor: '#000',
+            glyphAtlas: false,
+            dirtyCells: true,
+        };
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('should redraw the whole frame the first time', () => {
+        const renderer = new CanvasRenderer(context as CanvasRenderingContext2D, settings);
+        frame.set(0, 0, '#', '#fff');
+        renderer.render(frame);
+
+        expect(renderer.stats.fullRedraw).toBe(true);
+        expect(context.fillRect).toHaveBeenCalledWith(0, 0, 40, 20);
+        expect(context.fillText).toHaveBeenCalledWith('#', 0, 0);
+    });
+
+    it('should only redraw changed cells afterwards', () => {
+        const renderer = new CanvasRenderer(context as CanvasRenderingContext2D, settings);
+        frame.set(0, 0, '#', '#fff');
+        frame.set(1, 0, '#', '#fff');
+        renderer.render(frame);
+        vi.mocked(context.fillText!).mockClear();
+        vi.mocked(context.fillRect!).mockClear();
+
+        frame.set(1, 0, '#', '#f00');
+        frame.set(3, 1, '+', '#fff');
+        renderer.render(frame);
+
+        expect(renderer.stats.fullRedraw).toBe(false);
+        expect(renderer.stats.cellsDrawn).toBe(2);
+        expect(context.fillRect).toHaveBeenCalledWith(10, 0, 10, 10);
+        expect(context.fillRect).toHaveBeenCalledWith(30, 10, 10, 10);
+        expect(context.fillText).toHaveBeenCalledWith('#', 10, 0);
+        expect(context.fillText).toHaveBeenCalledWith('+', 30, 10);
+        expect(context.fillText).toHaveBeenCalledTimes(2);
+    });
+
+    it('should clear cells that became empty', () => {
+        const renderer = new CanvasRenderer(context as CanvasRenderingContext2D, settings);
+        frame.set(2, 1, '#', '#fff');
+        renderer.render(frame);
+        vi.mocked(context.fillRect!).mockClear();
+
+        frame.clear();
+        renderer.render(frame);
+
+        expect(context.fillRect).toHaveBeenCalledTimes(1);
+        expect(context.fillRect).toHaveBeenCalledWith(20, 10, 10, 10);
+        expect(renderer.stats.cellsDrawn).toBe(0);
+    });
+
+    it('should redraw everything after the background changes or when fills are used', () => {
+        const renderer = new CanvasRenderer(context as CanvasRenderingContext2D, settings);
+        renderer.render(frame);
+        renderer.configure({ ...settings, backgroundColor: '#111' });
+        renderer.render(frame);
+        expect(renderer.stats.fullRedraw).toBe(true);
+
+        renderer.render(frame);
+        expect(renderer.stats.fullRedraw).toBe(false);
+
+        frame.fills.push({ color: '#000', opacity: 0.2 });
+        renderer.render(frame);
+        expect(renderer.stats.fullRedraw).toBe(true);
+    });
+
+    it('should draw frames with fills over the previous frame', () => {
+        const renderer = new CanvasRenderer(context as CanvasRenderingContext2D, settings);
+        const filled: string[] = [];
+        context.globalAlpha = 1;
+        vi.mocked(context.fillRect!).mockImplementation((_x, _y, width) => {
+            if (width === settings.width)
+                filled.push(`${context.fillStyle as string} ${context.globalAlpha}`);
+        });
+
+        frame.fills.push({ color: 'hsl(0, 0%, 0%)', opacity: 0.2 });
+        renderer.render(frame);
+        renderer.render(frame);
+        expect(filled).toEqual(['#000 1', 'hsl(0, 0%, 0%) 0.2', 'hsl(0, 0%, 0%) 0.2']);
+        expect(context.globalAlpha).toBe(1);
+
+        // The streaks left behind are cleared once the frames stop fading.
+        frame.fills.length = 0;
+        renderer.render(frame);
+        expect(renderer.stats.fullRedraw).toBe(true);
+        expect(filled.at(-1)).toBe('#000 1');
+    });
+
+    it('should paint opaque cells afresh in frames with fills', () => {
+        const renderer = new CanvasRenderer(context as CanvasRenderingContext2D, settings);
+        frame.set(1, 0, '#', '#fff');
+        frame.opaque[1] = true;
+        renderer.render(frame);
+        vi.mocked(context.fillRect!).mockClear();
+
+        // The cell stays cleared once after it is no longer opaque, so that its old glyph does not fade out.
+        frame.clear();
+        frame.fills.push({ color: '#000', opacity: 0.2 });
+        frame.set(2, 0, '#', '#fff');
+        frame.opaque[2] = true;
+        renderer.render(frame);
+
+        expect(context.fillRect).toHaveBeenCalledWith(10, 0, 10, 10);
+        expect(context.fillRect).toHaveBeenCalledWith(20, 0, 10, 10);
+        expect(context.fillRect).toHaveBeenCalledTimes(3);
+    });
+
+    it('should blit glyphs from the atlas', () => {
+        const atlasContext = createMockContext();
+
+        vi.stubGlobal('OffscreenCanvas', class {
+            width = 0;
+            height = 0;
+            getContext() { return atlasContext; }
+        });
+
+        const renderer = new CanvasRenderer(context as CanvasRenderingContext2D, { ...settings, glyphAtlas: true });
+        renderer.configure({ ...settings, glyphAtlas: true });
+        frame.set(0, 0, '#', '#fff');
+        frame.set(1, 0, '#', '#fff');
+        frame.set(2, 0, '#', '#f00');
+        renderer.render(frame);
+
+        // Two distinct glyphs are rasterized once each and blitted three times.
+        expect(atlasContext.fillText).toHaveBeenCalledTimes(2);
+        expect(context.fillText).not.toHaveBeenCalled();
+        expect(context.drawImage).toHaveBeenCalledTimes(3);
+        expect(context.drawImage).toHaveBeenCalledWith(renderer.atlas!.canvas, 0, 0, 10, 10, 10, 0, 10, 10);
+        expect(renderer.atlas!.size).toBe(2);
+    });
+
+    it('should fall back to text when no atlas canvas is available', () => {
+        vi.stubGlobal('OffscreenCanvas', undefined);
+        vi.spyOn(document, 'createElement').mockReturnValue({ getContext: () => null } as unknown as HTMLElement);
+
+        const renderer = new CanvasRenderer(context as CanvasRenderingContext2D, settings);
+        renderer.configure({ ...settings, glyphAtlas: true });
+        frame.set(0, 0, '#', '#fff');
+        renderer.render(frame);
+
+        expect(renderer.atlas).toBeNull();
+        expect(context.fillText).toHaveBeenCalledWith('#', 0, 0);
+    });
+});
+
+describe('Dirty-cell rendering benchmark', () => {
+    let canvas: HTMLCanvasElement;
+    let context: Partial<CanvasRenderingContext2D>;
+    let frameCallback: FrameRequestCallback | null;
+
+    beforeEach(() => {
+        canvas = document.createElement('canvas');
+        canvas.width = 1920;
+        canvas.height = 1080;
+        context = createMockContext();
+        frameCallback = null;
+        vi.spyOn(canvas, 'getContext').mockReturnValue(context as CanvasRenderingContext2D);
+        vi.spyOn(performance, 'now').mockReturnValue(0);
+
+        vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+            frameCallback = callback;
+            return 1;
+        });
+
+        vi.stubGlobal('cancelAnimationFrame', vi.fn());
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    const countDrawCalls = (options: ASCIIGroundOptions, frames: number) => {
+        const ascii = new ASCIIGround(canvas, options);
+        ascii.startAnimation();
+        let drawCalls = 0;
+
+        for (let frame = 1; frame <= frames; frame++) {
+            frameCallback!(frame * 16);
+            drawCalls += ascii.renderStats.drawCalls;
+        }
+
+        ascii.stopAnimation();
+        return drawCalls;
+    };
+
+    it('should save most draw calls on a slowly changing 1080p perlin background', () => {
+        const options: ASCIIGroundOptions = {
+            pattern: 'perlin',
+            characters: [' ', '.', ':', ';', '+', '*', '#', '@'],
+            speed: 0.5,
+            fontSize: 10,
+        };
+
+        const frames = 10;
+        const full = countDrawCalls(options, frames);
+        const dirty = countDrawCalls({ ...options, dirtyCells: true }, frames);
+
+        // 192x108 cells and a background fill per frame without dirty-cell tracking.
+        expect(full).toBe(frames * (192 * 108 + 1));
+        expect(dirty).toBeLessThan(full * 0.25);
+    });
+});
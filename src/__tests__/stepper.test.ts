@@ -0,0 +1,46 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { FixedStepper, FrameGenerator, type ASCIIGroundOptions } from '../index';
+import { resolveOptions } from '../options';
+
+describe('FixedStepper', () => {
+    const countSteps = (times: number[]) => {
+        const stepper = new FixedStepper(10);
+        let steps = 0;
+
+        for (const time of times)
+            stepper.advance(time, () => steps++);
+
+        return steps;
+    };
+
+    it('should run the steps due however the time is split', () => {
+        expect(countSteps([0, 0.05, 0.1, 0.15, 0.2, 1])).toBe(10);
+        expect(countSteps([0, 1])).toBe(10);
+        // Starting later does not run the steps before the first update.
+        expect(countSteps([0.5, 1])).toBe(5);
+        // Time running backwards carries on from there.
+        expect(countSteps([0, 1, 0.5, 0.7])).toBe(12);
+    });
+
+    it('should skip all but the last ten units of time after a stall', () => {
+        expect(countSteps([0, 8])).toBe(80);
+        expect(countSteps([0, 600])).toBe(100);
+    });
+
+    it.each(['fire', 'life', 'japan-rain'] as const)('should run %s the same at any frame rate', (pattern) => {
+        const options: ASCIIGroundOptions = { pattern, characters: ['.', ':', '#'], speed: 1, seed: 5 };
+        const smooth = new FrameGenerator(resolveOptions(options), 12, 8);
+        const choppy = new FrameGenerator(resolveOptions(options), 12, 8);
+
+        // Frames of 1/64 of a time unit add up without rounding errors.
+        for (let frame = 0; frame <= 3 * 64; frame++)
+            smooth.compute(frame / 64);
+
+        // A single frame three units of time later, as at a low frame rate and a high speed.
+        for (const time of [0, 3])
+            choppy.compute(time);
+
+        expect(choppy.frame.chars).toEqual(smooth.frame.chars);
+    });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { ASCIIGround, FrameGenerator, type ASCIIGroundOptions } from '../index';
+import { resolveOptions } from '../options';
+
+describe('Timeline', () => {
+    let canvas: HTMLCanvasElement;
+    let frameCallback: FrameRequestCallback | null;
+    let clock: number;
+
+    beforeEach(() => {
+        canvas = document.createElement('canvas');
+        canvas.width = 100;
+        canvas.height = 100;
+        frameCallback = null;
+        clock = 0;
+
+        vi.spyOn(canvas, 'getContext').mockReturnValue({
+            font: '',
+            fillRect: vi.fn(),
+            fillText: vi.fn(),
+            measureText: vi.fn(() => ({ width: 10 } as TextMetrics)),
+        } as unknown as CanvasRenderingContext2D);
+
+        vi.spyOn(performance, 'now').mockImplementation(() => clock);
+
+        vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+            frameCallback = callback;
+            return 1;
+        });
+
+        vi.stubGlobal('cancelAnimationFrame', () => frameCallback = null);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    // Frames of 1/64 of a second add up without rounding errors.
+    const FRAME = 1000 / 64;
+
+    const options: ASCIIGroundOptions = {
+        pattern: 'japan-rain',
+        characters: [],
+        speed: 0.5,
+        fontSize: 10,
+        seed: 7,
+        pauseWhenHidden: false,
+    };
+
+    const advance = (seconds: number) => {
+        for (let frame = 0; frame < seconds * 64; frame++) {
+            clock += FRAME;
+            frameCallback?.(clock);
+        }
+    };
+
+    /**
+     * Record the characters of every frame drawn by the instance, returning the last ones.
+     */
+    const watchFrames = (ascii: ASCIIGround) => {
+        let chars: string[] = [];
+        ascii.on('afterRender', ({ frame }) => chars = [...frame.chars]);
+        return () => chars;
+    };
+
+    it('should keep the timeline when paused and resumed', () => {
+        const ascii = new ASCIIGround(canvas, options).init();
+        const times: number[] = [];
+        ascii.on('frame', ({ animationTime }) => times.push(animationTime));
+
+        ascii.startAnimation();
+        advance(1);
+        ascii.pause();
+        advance(1);
+
+        expect(ascii.time).toBe(1);
+        expect(ascii.isAnimating).toBe(false);
+
+        ascii.resume();
+        advance(0.5);
+
+        expect(ascii.time).toBe(1.5);
+        expect(times.at(-1)).toBe(0.75);
+
+        // Starting over goes back to the beginning.
+        ascii.stopAnimation();
+        ascii.startAnimation();
+        expect(ascii.time).toBe(0);
+    });
+
+    it('should start stateful patterns over when the animation starts again', () => {
+        const fresh = new ASCIIGround(canvas, options).init();
+        const freshFrame = watchFrames(fresh);
+        fresh.startAnimation();
+        advance(0.5);
+        fresh.stopAnimation();
+
+        const restarted = new ASCIIGround(canvas, options).init();
+        const restartedFrame = watchFrames(restarted);
+        restarted.startAnimation();
+        advance(2);
+        restarted.stopAnimation();
+        restarted.startAnimation();
+        advance(0.5);
+
+        expect(restartedFrame()).toEqual(freshFrame());
+    });
+
+    it('should render the frame of any point of the timeline', () => {
+        const played = new ASCIIGround(canvas, options).init();
+        const playedFrame = watchFrames(played);
+        played.startAnimation();
+        advance(2);
+
+        const sought = new ASCIIGround(canvas, options).init();
+        const soughtFrame = watchFrames(sought);
+        sought.renderAt(2);
+
+        expect(sought.time).toBe(2);
+        expect(soughtFrame()).toEqual(playedFrame());
+
+        // Seeking back simulates the pattern again from the start.
+        sought.renderAt(0.5);
+        expect(soughtFrame()).not.toEqual(playedFrame());
+        sought.renderAt(2);
+        expect(soughtFrame()).toEqual(playedFrame());
+    });
+
+    it('should seek far into stateful patterns and back again', () => {
+        const life = resolveOptions({ pattern: 'life', characters: ['o'], speed: 1, seed: 4 });
+
+        const played = (time: number) => {
+            const generator = new FrameGenerator(life, 30, 20);
+
+            for (let frame = 0; frame <= time * 64; frame++)
+                generator.compute(frame / 64);
+
+            return [...generator.frame.chars];
+        };
+
+        const sought = new FrameGenerator(life, 30, 20);
+        sought.seek(12);
+        expect([...sought.compute(12).chars]).toEqual(played(12));
+
+        sought.seek(3);
+        expect([...sought.compute(3).chars]).toEqual(played(3));
+    });
+
+    it('should step through the timeline', () => {
+        const ascii = new ASCIIGround(canvas, options).init();
+        const frame = watchFrames(ascii);
+
+        ascii.step(0.5);
+        ascii.step(0.5);
+        const stepped = frame();
+
+        ascii.step(-10);
+        expect(ascii.time).toBe(0);
+
+        ascii.seek(1);
+        expect(frame()).toEqual(stepped);
+        expect(() => ascii.seek(NaN)).toThrow('Time must be a finite number of at least 0, got NaN.');
+        expect(() => ascii.step(NaN)).toThrow('Step must be a finite number of seconds, got NaN.');
+
+        ascii.destroy();
+        expect(() => ascii.step(NaN)).toThrow('ASCIIGround instance has been destroyed.');
+    });
+
+    it('should play at the playback rate', () => {
+        const ascii = new ASCIIGround(canvas, options).init();
+        ascii.playbackRate = 0.25;
+        ascii.startAnimation();
+        advance(2);
+
+        expect(ascii.time).toBe(0.5);
+        expect(() => ascii.playbackRate = -1).toThrow('Playback rate must be a finite number of at least 0, got -1.');
+    });
+});
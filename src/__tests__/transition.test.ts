@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+    ASCIIGround,
+    FrameGenerator,
+    registerPattern,
+    unregisterPattern,
+    type ASCIIGroundOptions,
+    type PatternContext,
+    type TransitionOptions
+} from '../index';
+import { resolveOptions } from '../options';
+import { Transition } from '../rendering/transition';
+
+declare module '../index' {
+    interface PatternNameMap {
+        'test-full': true
+        'test-half': true
+        'test-ticker': true
+    }
+}
+
+describe('Transitions', () => {
+    let canvas: HTMLCanvasElement;
+    let context: Partial<CanvasRenderingContext2D>;
+    let frameCallback: FrameRequestCallback | null;
+    let init: ReturnType<typeof vi.fn>;
+    let updates: PatternContext['options'][];
+
+    beforeEach(() => {
+        registerPattern('test-full', () => 1);
+        registerPattern('test-half', () => 0);
+        init = vi.fn(() => null);
+        updates = [];
+
+        registerPattern('test-ticker', {
+            init,
+            update: (_state, { options }) => updates.push({ ...options }),
+            render: (_state, surface) => surface.drawChar('t', 0, 0),
+        });
+
+        canvas = document.createElement('canvas');
+        canvas.width = 40;
+        canvas.height = 10;
+        frameCallback = null;
+
+        context = {
+            fillRect: vi.fn(),
+            fillText: vi.fn(),
+            measureText: vi.fn(() => ({ width: 10 } as TextMetrics)),
+        };
+
+        vi.spyOn(canvas, 'getContext').mockReturnValue(context as CanvasRenderingContext2D);
+        vi.spyOn(performance, 'now').mockReturnValue(0);
+
+        vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+            frameCallback = callback;
+            return 1;
+        });
+
+        vi.stubGlobal('cancelAnimationFrame', vi.fn());
+    });
+
+    afterEach(() => {
+        ['test-full', 'test-half', 'test-ticker'].forEach(unregisterPattern);
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    const options: ASCIIGroundOptions = {
+        pattern: 'test-ticker',
+        characters: ['a'],
+        speed: 1,
+        fontSize: 10,
+        color: '#00ff00',
+    };
+
+    const linear = (duration: number, settings: Partial<TransitionOptions> = {}) => ({
+        transition: { duration, easing: 'linear' as const, ...settings },
+    });
+
+    it('should tween numbers and colors without restarting the pattern', () => {
+        const ascii = new ASCIIGround(canvas, options);
+        ascii.startAnimation();
+        frameCallback!(0);
+
+        ascii.updateOptions({ rainDensity: 0.1, color: '#ff0000' }, linear(1000));
+        frameCallback!(500);
+        frameCallback!(1000);
+        frameCallback!(1500);
+
+        expect(init).toHaveBeenCalledTimes(1);
+        expect(updates.slice(1).map(({ rainDensity }) => rainDensity)).toEqual([0.5, 0.1, 0.1]);
+        expect(updates.slice(1).map(({ color }) => color)).toEqual(['#808000', '#ff0000', '#ff0000']);
+    });
+
+    it('should keep the previous pattern running until the new one has faded in', () => {
+        const ascii = new ASCIIGround(canvas, options);
+        ascii.startAnimation();
+        frameCallback!(0);
+
+        const wipe = linear(1000, { type: 'wipe', direction: 'left' });
+        ascii.updateOptions({ pattern: 'test-full', characters: ['#'] }, wipe);
+        vi.mocked(context.fillText!).mockClear();
+        frameCallback!(500);
+
+        // The wipe has covered the right half of the four columns, the ticker keeps drawing on the left.
+        expect(updates).toHaveLength(2);
+        expect(vi.mocked(context.fillText!).mock.calls.map(([char, x]) => [char, x]))
+            .toEqual([['t', 0], ['#', 20], ['#', 30]]);
+
+        vi.mocked(context.fillText!).mockClear();
+        frameCallback!(1000);
+        frameCallback!(1500);
+
+        expect(updates).toHaveLength(3);
+        expect(vi.mocked(context.fillText!).mock.calls.every(([char]) => char === '#')).toBe(true);
+    });
+
+    it('should apply canvas options at once and start the pattern over for options it reads when it starts', () => {
+        const ascii = new ASCIIGround(canvas, options);
+        ascii.startAnimation();
+        frameCallback!(0);
+
+        ascii.updateOptions({ maxFps: 30 }, linear(1000));
+        frameCallback!(500);
+
+        expect(init).toHaveBeenCalledTimes(1);
+        expect(updates.at(-1)?.maxFps).toBe(30);
+        expect(ascii.toJSON().options.maxFps).toBe(30);
+
+        ascii.updateOptions({ lifeDensity: 0.9 }, linear(1000));
+        frameCallback!(1000);
+
+        expect(init).toHaveBeenCalledTimes(2);
+        const [started] = init.mock.lastCall as [PatternContext];
+        expect(started.options.lifeDensity).toBe(0.9);
+    });
+
+    it('should apply changes at once when the animation is not running', () => {
+        const ascii = new ASCIIGround(canvas, options).init();
+        ascii.updateOptions({ color: '#ff0000' }, linear(1000));
+
+        expect(updates.at(-1)?.color).toBe('#ff0000');
+    });
+
+    it('should only start the pattern over for options it reads when it starts', () => {
+        const ascii = new ASCIIGround(canvas, options).init();
+        ascii.updateOptions({ color: '#ff0000', speed: 2, maxFps: 30 });
+        expect(init).toHaveBeenCalledTimes(1);
+
+        ascii.updateOptions({ lifeDensity: 0.9 });
+        expect(init).toHaveBeenCalledTimes(2);
+    });
+
+    it('should finish a running transition when the next one starts', () => {
+        const ascii = new ASCIIGround(canvas, options);
+        ascii.startAnimation();
+        frameCallback!(0);
+
+        ascii.updateOptions({ rainDensity: 0.1 }, linear(1000));
+        frameCallback!(100);
+        ascii.updateOptions({ color: '#ff0000' }, linear(1000));
+        frameCallback!(200);
+
+        expect(updates.at(-1)?.rainDensity).toBe(0.1);
+    });
+
+    describe('blending', () => {
+        const generator = (pattern: ASCIIGroundOptions['pattern'], char: string) =>
+            new FrameGenerator(resolveOptions({ pattern, characters: [char], speed: 1, seed: 1 }), 4, 1);
+
+        const blend = (settings: TransitionOptions, progress: number) => {
+            const incoming = generator('test-full', 'b');
+            const outgoing = { generator: generator('test-half', 'a'), time: 0 };
+            const transition = new Transition(settings, 0, incoming.options, {}, outgoing);
+            return transition.blend(incoming.compute(0), progress, 0, 0, '#000000').chars.join('');
+        };
+
+        it('should wipe in the given direction', () => {
+            expect(blend({ duration: 1, type: 'wipe' }, 0.5)).toBe('bbaa');
+            expect(blend({ duration: 1, type: 'wipe', direction: 'left' }, 0.5)).toBe('aabb');
+            expect(blend({ duration: 1, type: 'wipe' }, 1)).toBe('bbbb');
+        });
+
+        it('should dissolve cells in a random order', () => {
+            const halfway = blend({ duration: 1, type: 'dissolve' }, 0.5);
+
+            expect(blend({ duration: 1, type: 'dissolve' }, 0)).toBe('aaaa');
+            expect(halfway).toMatch(/^[ab]{4}$/);
+            expect(blend({ duration: 1, type: 'dissolve' }, 0.5)).toBe(halfway);
+            expect(blend({ duration: 1, type: 'dissolve' }, 1)).toBe('bbbb');
+        });
+
+        it('should crossfade by the weight of each pattern', () => {
+            // The outgoing pattern has half the value of the incoming one.
+            expect(blend({ duration: 1 }, 0.3)).toBe('aaaa');
+            expect(blend({ duration: 1 }, 0.4)).toBe('bbbb');
+        });
+
+        it('should ease the progress', () => {
+            const transition = (easing: TransitionOptions['easing']) =>
+                new Transition({ duration: 1000, easing }, 0, resolveOptions(options), {});
+
+            expect(transition('linear').progress(250)).toBe(0.25);
+            expect(transition('ease-in').progress(500)).toBe(0.125);
+            expect(transition(undefined).progress(500)).toBe(0.5);
+            expect(transition((t) => Math.round(t)).progress(600)).toBe(1);
+            expect(transition('linear').progress(2000)).toBe(1);
+        });
+    });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+    ASCIIGround,
+    OptionsValidationError,
+    findOptionIssues,
+    optionsSchema,
+    registerPattern,
+    unregisterPattern,
+    validateOptions,
+    type ASCIIGroundOptions,
+    type OptionsChangeEvent
+} from '../index';
+
+declare module '../index' {
+    interface PatternNameMap {
+        'test-glyphs': true
+    }
+}
+
+const options: ASCIIGroundOptions = { pattern: 'perlin', characters: ['.', ':', '#'], speed: 1 };
+
+/** Options that skip type checking, as plain JavaScript or a parsed config would. */
+function loose(value: Record<string, unknown>): ASCIIGroundOptions {
+    return { ...options, ...value } as unknown as ASCIIGroundOptions;
+}
+
+describe('Options validation', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should accept valid options as they are', () => {
+        const valid: ASCIIGroundOptions = {
+            ...options,
+            palette: { type: 'gradient', stops: ['#000000', { offset: 1, color: '#ffffff' }] },
+            octaves: 4,
+            lifeRule: 'B36/S23',
+            japanRain: { glyphs: 'characters', trailLength: [4, 12], headGlow: false },
+            interaction: { effect: 'ripple', radius: 6 },
+            layers: [{ pattern: 'rain', opacity: 0.5, blend: 'add' }],
+        };
+
+        expect(findOptionIssues(valid)).toEqual([]);
+        expect(validateOptions(valid)).toBe(valid);
+    });
+
+    it('should report every problem with the path of its field', () => {
+        const issues = findOptionIssues(loose({
+            speed: NaN,
+            octaves: 12,
+            direction: 'sideways',
+            lifeRule: 'B9',
+            palette: { type: 'discrete', colors: ['#fff', 3] },
+            interaction: { radius: 4 },
+            layers: [{ pattern: 'wave', opacity: 2 }],
+        }));
+
+        expect(issues).toEqual([
+            { path: 'speed', message: 'expected a number of at least 0, got NaN' },
+            { path: 'palette.colors[1]', message: 'expected a string, got 3' },
+            { path: 'direction', message: 'expected one of "left", "right", "up", "down", got "sideways"' },
+            { path: 'octaves', message: 'expected a number between 1 and 8, got 12' },
+            { path: 'lifeRule', message: 'expected a rule in B/S notation such as "B3/S23", got "B9"' },
+            { path: 'interaction.effect', message: 'is required' },
+            { path: 'layers[0].opacity', message: 'expected a number between 0 and 1, got 2' }
+        ]);
+    });
+
+    it('should throw an error listing every problem', () => {
+        const invalid = loose({ rainDensity: 1.5, blend: undefined, validation: 'throw', layers: [{ opacity: 1 }] });
+
+        expect(() => validateOptions(invalid)).toThrow(OptionsValidationError);
+        expect(() => validateOptions(invalid)).toThrow(
+            'Invalid ASCIIGround options:\n'
+            + '- rainDensity: expected a number between 0 and 1, got 1.5\n'
+            + '- layers[0].pattern: is required'
+        );
+    });
+
+    it('should check options against their pattern', () => {
+        expect(findOptionIssues({ ...options, characters: [] })).toEqual([
+            { path: 'characters', message: 'expected at least one character for the perlin pattern' }
+        ]);
+
+        expect(findOptionIssues({ ...options, pattern: 'image' })).toEqual([
+            { path: 'image', message: 'is required by the image pattern' }
+        ]);
+
+        // Japan rain draws its own glyphs unless told to use the characters.
+        expect(findOptionIssues({ ...options, pattern: 'japan-rain', characters: [] })).toEqual([]);
+        expect(findOptionIssues({ ...options, characters: [], layers: [{ pattern: 'japan-rain' }] })).toHaveLength(1);
+
+        expect(findOptionIssues({ ...options, layers: [{ pattern: 'wave', characters: [] }] })).toEqual([
+            { path: 'layers[0].characters', message: 'expected at least one character for the wave pattern' }
+        ]);
+    });
+
+    it('should only accept gradient colors that can be blended', () => {
+        const gradient = (stops: unknown[]) => loose({ palette: { type: 'gradient', stops } });
+
+        expect(findOptionIssues(gradient(['red', '#00ff00', { offset: 1, color: 'rgb(0, 0, 255)' }]))).toEqual([]);
+        expect(findOptionIssues(gradient([{ offset: 1, color: 'hsl(0, 100%, 50%)' }]))).toEqual([{
+            path: 'palette.stops[0].color',
+            message: 'expected a color such as "#ff0000", "rgb(255, 0, 0)" or "red", got "hsl(0, 100%, 50%)"',
+        }]);
+
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        expect(validateOptions({ ...gradient(['red', 'reddish']), validation: 'warn' }).palette)
+            .toEqual({ type: 'gradient', stops: ['red'] });
+    });
+
+    it('should leave custom stateful patterns their own glyphs', () => {
+        registerPattern('test-glyphs', { init: () => null, update: () => undefined, render: () => undefined });
+
+        expect(findOptionIssues({ ...options, pattern: 'test-glyphs', characters: [] })).toEqual([]);
+        unregisterPattern('test-glyphs');
+    });
+
+    it('should clamp and drop invalid values in warn mode', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        const corrected = validateOptions(loose({
+            validation: 'warn',
+            pattern: 'missing',
+            speed: -2,
+            rainDensity: 3,
+            rainFloor: 2.4,
+            noiseType: 'value',
+            layers: [{ pattern: 'rain', opacity: -1 }, { pattern: 'image' }],
+        }));
+
+        expect(corrected).toMatchObject({ pattern: 'perlin', speed: 0, rainDensity: 1, rainFloor: 2 });
+        expect(corrected.noiseType).toBeUndefined();
+        expect(corrected.layers).toEqual([{ pattern: 'rain', opacity: 0 }]);
+        expect(warn).toHaveBeenCalledOnce();
+        expect(warn.mock.calls[0][0]).toContain('- noiseType: expected one of "perlin", "simplex", got "value"');
+    });
+
+    it('should describe the options as a JSON Schema', () => {
+        expect(optionsSchema).toMatchObject({
+            $schema: 'http://json-schema.org/draft-07/schema#',
+            type: 'object',
+            required: ['pattern', 'characters', 'speed'],
+        });
+
+        const properties = optionsSchema.properties as Record<string, Record<string, unknown>>;
+        expect(properties.octaves).toEqual({ type: 'number', minimum: 1, maximum: 8 });
+        expect(properties.reducedMotion).toEqual({ enum: ['static', 'slow', 'ignore'] });
+        expect(properties.interaction).toMatchObject({ type: 'object', required: ['effect'] });
+        expect(JSON.parse(JSON.stringify(optionsSchema))).toEqual(optionsSchema);
+    });
+});
+
+describe('ASCIIGround options validation', () => {
+    let canvas: HTMLCanvasElement;
+
+    beforeEach(() => {
+        canvas = document.createElement('canvas');
+        canvas.width = 100;
+        canvas.height = 60;
+
+        vi.spyOn(canvas, 'getContext').mockReturnValue({
+            fillStyle: '',
+            font: '',
+            textBaseline: 'top' as CanvasTextBaseline,
+            fillRect: vi.fn(),
+            fillText: vi.fn(),
+            measureText: vi.fn(() => ({ width: 10 } as TextMetrics)),
+        } as unknown as CanvasRenderingContext2D);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should reject invalid options when constructed and updated', () => {
+        expect(() => new ASCIIGround(canvas, loose({ fontSize: 0 }))).toThrow('fontSize: expected a number greater');
+
+        const ground = new ASCIIGround(canvas, options);
+        const listener = vi.fn();
+        ground.on('optionsChange', listener);
+
+        expect(() => ground.updateOptions({ octaves: 0 })).toThrow(OptionsValidationError);
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should keep the current values of invalid changes in warn mode', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const ground = new ASCIIGround(canvas, { ...options, validation: 'warn', pattern: 'wave', direction: 'down' });
+        const changes: OptionsChangeEvent[] = [];
+        ground.on('optionsChange', (event) => changes.push(event));
+
+        ground.updateOptions(loose({ pattern: 'missing', direction: 'sideways', gain: -1, frequency: 2 }));
+
+        expect(changes[0].options).toMatchObject({ pattern: 'wave', direction: 'down', gain: 0, frequency: 2 });
+    });
+});
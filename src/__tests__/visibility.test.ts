@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { ASCIIGround, registerPattern, unregisterPattern, type ASCIIGroundOptions } from '../index';
+
+declare module '../index' {
+    interface PatternNameMap {
+        'test-clock': true
+    }
+}
+
+describe('Motion and visibility', () => {
+    let canvas: HTMLCanvasElement;
+    let context: Partial<CanvasRenderingContext2D>;
+    let frameCallback: FrameRequestCallback | null;
+    let times: number[];
+
+    beforeEach(() => {
+        times = [];
+
+        registerPattern('test-clock', (_x, _y, time) => {
+            times.push(time);
+            return 0;
+        });
+
+        canvas = document.createElement('canvas');
+        canvas.width = 10;
+        canvas.height = 10;
+        frameCallback = null;
+
+        context = {
+            fillRect: vi.fn(),
+            fillText: vi.fn(),
+            measureText: vi.fn(() => ({ width: 10 } as TextMetrics)),
+        };
+
+        vi.spyOn(canvas, 'getContext').mockReturnValue(context as CanvasRenderingContext2D);
+        vi.spyOn(performance, 'now').mockReturnValue(0);
+
+        vi.stubGlobal('requestAnimationFrame', vi.fn((callback: FrameRequestCallback) => {
+            frameCallback = callback;
+            return 1;
+        }));
+
+        vi.stubGlobal('cancelAnimationFrame', vi.fn());
+    });
+
+    afterEach(() => {
+        unregisterPattern('test-clock');
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    const options: ASCIIGroundOptions = { pattern: 'test-clock', characters: ['#'], speed: 1, fontSize: 10 };
+
+    const stubReducedMotion = (matches: boolean) => {
+        const query = new EventTarget() as MediaQueryList;
+        Object.assign(query, { matches, media: '(prefers-reduced-motion: reduce)' });
+        const matchMedia = vi.fn(() => query);
+        vi.stubGlobal('matchMedia', matchMedia);
+
+        const change = (reduce: boolean) => {
+            Object.assign(query, { matches: reduce });
+            query.dispatchEvent(Object.assign(new Event('change'), { matches: reduce }));
+        };
+
+        return { matchMedia, change };
+    };
+
+    const setPageHidden = (hidden: boolean) => {
+        vi.spyOn(document, 'hidden', 'get').mockReturnValue(hidden);
+        document.dispatchEvent(new Event('visibilitychange'));
+    };
+
+    it('should suspend while the page is hidden and resume where it left off', () => {
+        const ascii = new ASCIIGround(canvas, options);
+        ascii.startAnimation();
+        frameCallback!(1000);
+
+        setPageHidden(true);
+        expect(cancelAnimationFrame).toHaveBeenCalledWith(1);
+        expect(ascii.isAnimating).toBe(true);
+        expect(ascii.isSuspended).toBe(true);
+
+        vi.spyOn(performance, 'now').mockReturnValue(60_000);
+        setPageHidden(false);
+        expect(ascii.isSuspended).toBe(false);
+
+        frameCallback!(60_100);
+        expect(times.at(-1)).toBeCloseTo(1.1);
+    });
+
+    it('should suspend while the canvas is scrolled out of view', () => {
+        let report: IntersectionObserverCallback | null = null;
+        const observe = vi.fn();
+
+        vi.stubGlobal('IntersectionObserver', class {
+            constructor(callback: IntersectionObserverCallback) {
+                report = callback;
+            }
+
+            observe = observe;
+            disconnect = vi.fn();
+        });
+
+        const ascii = new ASCIIGround(canvas, options);
+        ascii.startAnimation();
+        expect(observe).toHaveBeenCalledWith(canvas);
+
+        report!([{ isIntersecting: false } as IntersectionObserverEntry], {} as IntersectionObserver);
+        expect(ascii.isSuspended).toBe(true);
+
+        report!([{ isIntersecting: true } as IntersectionObserverEntry], {} as IntersectionObserver);
+        expect(ascii.isSuspended).toBe(false);
+    });
+
+    it('should keep animating when pauseWhenHidden is off', () => {
+        const ascii = new ASCIIGround(canvas, { ...options, pauseWhenHidden: false });
+        ascii.startAnimation();
+        setPageHidden(true);
+
+        expect(ascii.isSuspended).toBe(false);
+    });
+
+    it('should show a static frame when the user prefers reduced motion', () => {
+        const { change } = stubReducedMotion(true);
+        const ascii = new ASCIIGround(canvas, options);
+        ascii.startAnimation();
+
+        expect(requestAnimationFrame).not.toHaveBeenCalled();
+        expect(ascii.isSuspended).toBe(true);
+        expect(context.fillText).toHaveBeenCalled();
+
+        change(false);
+        expect(requestAnimationFrame).toHaveBeenCalledTimes(1);
+
+        change(true);
+        expect(cancelAnimationFrame).toHaveBeenCalledWith(1);
+    });
+
+    it('should slow down instead when reducedMotion is slow', () => {
+        stubReducedMotion(true);
+        const ascii = new ASCIIGround(canvas, { ...options, reducedMotion: 'slow' });
+        ascii.startAnimation();
+        frameCallback!(1000);
+
+        expect(times.at(-1)).toBeCloseTo(0.1);
+    });
+
+    it('should not query the setting when reducedMotion is ignore', () => {
+        const { matchMedia } = stubReducedMotion(true);
+        const ascii = new ASCIIGround(canvas, { ...options, reducedMotion: 'ignore' });
+        ascii.startAnimation();
+
+        expect(matchMedia).not.toHaveBeenCalled();
+        expect(ascii.isSuspended).toBe(false);
+    });
+
+    it('should take reports for canvases that cannot be watched', () => {
+        const ascii = new ASCIIGround(canvas, { ...options, pauseWhenHidden: false, reducedMotion: 'ignore' });
+        ascii.startAnimation();
+
+        ascii.setVisibility(false);
+        expect(ascii.isSuspended).toBe(true);
+
+        ascii.setVisibility(true);
+        ascii.updateOptions({ reducedMotion: 'static' });
+        ascii.setReducedMotion(true);
+        expect(ascii.isSuspended).toBe(true);
+
+        ascii.stopAnimation();
+        expect(ascii.isAnimating).toBe(false);
+        expect(ascii.isSuspended).toBe(false);
+    });
+});
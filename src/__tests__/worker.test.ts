@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import {
+    ASCIIGround,
+    OffscreenASCIIGround,
+    OptionsValidationError,
+    createASCIIGround,
+    serveRenderRequests,
+    type ASCIIGroundOptions,
+    type RenderPort,
+    type RenderRequest,
+    type RenderResponse
+} from '../index';
+
+/**
+ * A worker and its global scope connected back to back, delivering messages synchronously.
+ */
+function createWorkerPair(): { worker: Worker, requests: RenderRequest[] } {
+    const requests: RenderRequest[] = [];
+    const workerSide = new EventTarget();
+    const mainSide = new EventTarget();
+
+    const port: RenderPort = {
+        addEventListener: (type, listener) => workerSide.addEventListener(type, listener as EventListener),
+        postMessage: (message: RenderResponse) => {
+            mainSide.dispatchEvent(new MessageEvent('message', { data: message }));
+        },
+    };
+
+    const worker = Object.assign(mainSide, {
+        postMessage: (message: RenderRequest) => {
+            requests.push(message);
+            workerSide.dispatchEvent(new MessageEvent('message', { data: message }));
+        },
+        terminate: vi.fn(),
+    });
+
+    serveRenderRequests(port);
+    return { worker: worker as unknown as Worker, requests };
+}
+
+describe('Offscreen rendering', () => {
+    let canvas: HTMLCanvasElement;
+    let offscreen: HTMLCanvasElement;
+    let mockContext: Partial<CanvasRenderingContext2D>;
+    let options: ASCIIGroundOptions;
+
+    beforeEach(() => {
+        canvas = document.createElement('canvas');
+        canvas.width = 100;
+        canvas.height = 50;
+
+        // jsdom has no OffscreenCanvas, so a detached canvas stands in for the transferred one.
+        offscreen = document.createElement('canvas');
+        offscreen.width = canvas.width;
+        offscreen.height = canvas.height;
+
+        mockContext = {
+            fillStyle: '',
+            font: '',
+            textBaseline: 'top' as CanvasTextBaseline,
+            fillRect: vi.fn(),
+            fillText: vi.fn(),
+            measureText: vi.fn(() => ({ width: 10 } as TextMetrics)),
+        };
+
+        vi.spyOn(offscreen, 'getContext').mockReturnValue(mockContext as CanvasRenderingContext2D);
+        vi.spyOn(canvas, 'getContext').mockReturnValue(mockContext as CanvasRenderingContext2D);
+
+        Object.defineProperty(canvas, 'transferControlToOffscreen', {
+            value: () => offscreen as unknown as OffscreenCanvas,
+        });
+
+        options = {
+            pattern: 'static',
+            characters: ['.', '#'],
+            speed: 1,
+            fontSize: 10,
+            seed: 1,
+        };
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should transfer the canvas and render inside the worker', () => {
+        const { worker, requests } = createWorkerPair();
+        const ground = new OffscreenASCIIGround(canvas, options, { createWorker: () => worker }).init();
+
+        expect(requests[0]).toMatchObject({ type: 'create', canvas: offscreen, options });
+        expect(mockContext.fillText).toHaveBeenCalledTimes(50);
+        expect(ground.isAnimating).toBe(false);
+    });
+
+    it('should forward the public methods over the message protocol', () => {
+        vi.spyOn(window, 'requestAnimationFrame').mockReturnValue(1);
+        vi.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => {});
+        const { worker, requests } = createWorkerPair();
+        const ground = new OffscreenASCIIGround(canvas, options, { createWorker: () => worker });
+
+        ground.startAnimation();
+        expect(ground.isAnimating).toBe(true);
+        expect(() => ground.startAnimation()).toThrow('Animation is already running!');
+
+        ground.updateOptions({ characters: ['@'] });
+        ground.resize(200, 100);
+        ground.stopAnimation();
+
+        expect(requests.map((request) => request.type)).toEqual(['create', 'start', 'update', 'resize', 'stop']);
+        expect(offscreen.width).toBe(200);
+        expect(offscreen.height).toBe(100);
+        expect(mockContext.fillText).toHaveBeenLastCalledWith('@', 190, 90);
+        expect(window.cancelAnimationFrame).toHaveBeenCalledWith(1);
+        expect(ground.isAnimating).toBe(false);
+    });
+
+    it('should forward time control to the worker', () => {
+        vi.spyOn(window, 'requestAnimationFrame').mockReturnValue(1);
+        vi.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => {});
+        const { worker, requests } = createWorkerPair();
+        const ground = new OffscreenASCIIGround(canvas, options, { createWorker: () => worker });
+
+        ground.playbackRate = 2;
+        ground.resume();
+        expect(ground.isAnimating).toBe(true);
+
+        ground.pause();
+        ground.seek(3);
+        ground.step(0.5);
+        ground.renderAt(1);
+
+        expect(requests.slice(1)).toEqual([
+            { type: 'playbackRate', rate: 2 },
+            { type: 'resume' },
+            { type: 'pause' },
+            { type: 'seek', time: 3 },
+            { type: 'step', delta: 0.5 },
+            { type: 'renderAt', time: 1 }
+        ]);
+
+        expect(ground.playbackRate).toBe(2);
+        expect(ground.isAnimating).toBe(false);
+    });
+
+    it('should reject invalid time control before it reaches the worker', () => {
+        const { worker, requests } = createWorkerPair();
+        const ground = new OffscreenASCIIGround(canvas, options, { createWorker: () => worker });
+
+        expect(() => ground.playbackRate = -1).toThrow('Playback rate must be a finite number of at least 0, got -1.');
+        expect(() => ground.seek(NaN)).toThrow('Time must be a finite number of at least 0, got NaN.');
+        expect(() => ground.renderAt(-2)).toThrow('Time must be a finite number of at least 0, got -2.');
+        expect(() => ground.step(Infinity)).toThrow('Step must be a finite number of seconds, got Infinity.');
+
+        expect(requests).toHaveLength(1);
+        expect(ground.playbackRate).toBe(1);
+    });
+
+    it('should save the same config as an instance on the main thread', () => {
+        const { worker } = createWorkerPair();
+        const ground = new OffscreenASCIIGround(canvas, options, { createWorker: () => worker });
+        ground.updateOptions({ speed: 2 });
+
+        const main = document.createElement('canvas');
+        vi.spyOn(main, 'getContext').mockReturnValue(mockContext as CanvasRenderingContext2D);
+
+        expect(ground.toJSON()).toEqual(new ASCIIGround(main, { ...options, speed: 2 }).toJSON());
+        expect(ground.toJSON().options).toMatchObject({ fontFamily: 'monospace', backgroundColor: '#000000' });
+    });
+
+    it('should shut down the worker when destroyed', () => {
+        const { worker, requests } = createWorkerPair();
+        const terminate = vi.spyOn(worker, 'terminate');
+        const ground = new OffscreenASCIIGround(canvas, options, { createWorker: () => worker });
+        document.body.appendChild(canvas);
+
+        ground.destroy({ removeCanvas: true });
+
+        expect(requests.at(-1)).toEqual({ type: 'destroy' });
+        expect(terminate).toHaveBeenCalled();
+        expect(canvas.isConnected).toBe(false);
+        expect(() => ground.init()).toThrow('ASCIIGround instance has been destroyed.');
+    });
+
+    it('should report errors raised inside the worker', () => {
+        const { worker } = createWorkerPair();
+        const onError = vi.fn();
+        const ground = new OffscreenASCIIGround(canvas, options, { createWorker: () => worker, onError });
+
+        // Options are validated before they are sent, so only requests from elsewhere get this far.
+        ground.worker.postMessage({ type: 'update', options: { pattern: 'missing' }, settings: {} });
+        expect(onError).toHaveBeenCalledOnce();
+        expect(onError.mock.calls[0][0]).toBeInstanceOf(Error);
+        expect((onError.mock.calls[0][0] as Error).message).toContain('pattern: unknown pattern "missing"');
+    });
+
+    it('should reject invalid options before they reach the worker', () => {
+        const { worker, requests } = createWorkerPair();
+        const ground = new OffscreenASCIIGround(canvas, options, { createWorker: () => worker });
+        const count = requests.length;
+
+        expect(() => ground.updateOptions({ speed: -1 })).toThrow(OptionsValidationError);
+        expect(requests).toHaveLength(count);
+        expect(() => new OffscreenASCIIGround(canvas, { ...options, octaves: 0 })).toThrow('octaves');
+    });
+
+    it('should reject requests before the canvas arrives', () => {
+        const port = { addEventListener: vi.fn(), postMessage: vi.fn() };
+        serveRenderRequests(port);
+
+        const [, listener] = port.addEventListener.mock.calls[0] as [string, (event: MessageEvent) => void];
+        listener(new MessageEvent('message', { data: { type: 'start' } }));
+
+        expect(port.postMessage).toHaveBeenCalledWith({
+            type: 'error',
+            message: 'Render worker received a request before its canvas.',
+        });
+    });
+
+    it('should forward pointer input in canvas coordinates', () => {
+        const { worker, requests } = createWorkerPair();
+        vi.spyOn(canvas, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 0, 50, 25));
+        new OffscreenASCIIGround(canvas, { ...options, interaction: { effect: 'spotlight' } }, {
+            createWorker: () => worker,
+        });
+
+        window.dispatchEvent(new MouseEvent('pointermove', { clientX: 10, clientY: 10 }));
+        expect(requests.at(-1)).toEqual({ type: 'pointer', input: { type: 'move', x: 20, y: 20 } });
+    });
+
+    it('should fall back to the in-thread renderer without OffscreenCanvas', () => {
+        expect(OffscreenASCIIGround.isSupported()).toBe(false);
+        expect(createASCIIGround(canvas, options, { offscreen: true })).toBeInstanceOf(ASCIIGround);
+    });
+});
@@ -0,0 +1,653 @@
+import { createInstanceConfig, parseConfig, type ASCIIGroundConfig } from './config';
+import { EventEmitter, type ASCIIGroundEventMap, type FrameEvent, type Listener } from './events';
+import { PointerTracker, type PointerInput } from './interaction';
+import { CanvasRenderer, type CanvasRendererSettings, type RenderStats } from './rendering/canvas-renderer';
+import type { CellBuffer } from './rendering/cell-buffer';
+import { FrameGenerator } from './rendering/frame-generator';
+import { FramePacer } from './rendering/frame-pacer';
+import type { RenderingContext2D } from './rendering/glyph-atlas';
+import {
+    splitTweenedOptions,
+    Transition,
+    type TransitionOptions,
+    type UpdateSettings
+} from './rendering/transition';
+import { resolveOptions, type ASCIIGroundOptions, type ResolvedOptions } from './options';
+import { assertValidPlaybackRate, assertValidStep, assertValidTime } from './timeline';
+import { validateOptionChanges, validateOptions } from './validation';
+import { REDUCED_MOTION_SPEED, ReducedMotionQuery, VisibilityWatcher } from './visibility';
+
+/**
+ * Public surface shared by the in-thread renderer and its worker-backed counterpart.
+ */
+export interface ASCIIGroundController {
+    readonly isAnimating: boolean
+    playbackRate: number
+    init(): ASCIIGroundController
+    startAnimation(): void
+    stopAnimation(): void
+    pause(): void
+    resume(): void
+    seek(time: number): void
+    step(delta: number): void
+    renderAt(time: number): void
+    updateOptions(newOptions: Partial<ASCIIGroundOptions>, settings?: UpdateSettings): void
+    resize(width: number, height: number): void
+    destroy(settings?: DestroySettings): void
+    toJSON(): ASCIIGroundConfig
+}
+
+export interface DestroySettings {
+    /** Remove the canvas from the document as well. Defaults to false, or true for `createFullPageBackground`. */
+    removeCanvas?: boolean
+}
+
+/**
+ * Main ASCIIGround class for creating backgrounds.
+ */
+export class ASCIIGround implements ASCIIGroundController {
+    private _canvas: HTMLCanvasElement | OffscreenCanvas;
+    private _context: RenderingContext2D;
+    private _options: ResolvedOptions;
+    private _animationId: number | null = null;
+    private _animationTime: number = 0;
+    private _time: number = 0;
+    private _playbackRate: number = 1;
+    private _lastTime: number = performance.now();
+    private _currentTime: number = this._lastTime;
+    private _charWidth: number = 0;
+    private _charHeight: number = 0;
+    private _generator: FrameGenerator;
+    private _pointerTracker: PointerTracker | null = null;
+    private _renderer: CanvasRenderer;
+    private _transition: Transition | null = null;
+    private _pacer: FramePacer;
+    private _running: boolean = false;
+    private _visible: boolean = true;
+    private _reduceMotion: boolean = false;
+    private _visibilityWatcher: VisibilityWatcher | null = null;
+    private _reducedMotionQuery: ReducedMotionQuery | null = null;
+    private _destroyed: boolean = false;
+    private _events = new EventEmitter<ASCIIGroundEventMap>();
+
+    /**
+     * Whether the animation was started, including while it is suspended.
+     */
+    get isAnimating(): boolean {
+        return this._running;
+    }
+
+    /**
+     * Whether a started animation is on hold, because the canvas cannot be seen
+     * or because the user prefers reduced motion.
+     */
+    get isSuspended(): boolean {
+        return this._running && this._animationId === null;
+    }
+
+    /**
+     * Point of the timeline the animation is at, in seconds played at a `playbackRate` of 1.
+     */
+    get time(): number {
+        return this._time;
+    }
+
+    /**
+     * Factor time passes at on the timeline, e.g. 0.5 to play at half the pace or 0 to hold the current frame.
+     * Unlike `speed`, it is not part of the options and leaves the pattern itself alone.
+     */
+    get playbackRate(): number {
+        return this._playbackRate;
+    }
+
+    set playbackRate(rate: number) {
+        this.assertNotDestroyed();
+        assertValidPlaybackRate(rate);
+        this._playbackRate = rate;
+    }
+
+    /**
+     * Draw call statistics of the last rendered frame.
+     */
+    get renderStats(): Readonly<RenderStats> {
+        return this._renderer.stats;
+    }
+
+    /**
+     * Create a renderer from a config saved with `toJSON()`, given as JSON or as an object.
+     */
+    static fromJSON(canvas: HTMLCanvasElement | OffscreenCanvas, config: string | ASCIIGroundConfig): ASCIIGround {
+        return new ASCIIGround(canvas, parseConfig(config));
+    }
+
+    /**
+     * Create a renderer for the given canvas. An OffscreenCanvas can be used as
+     * well, e.g. inside a worker, in which case pointer input has to be passed
+     * in through `dispatchPointer()`.
+     */
+    constructor(canvas: HTMLCanvasElement | OffscreenCanvas, options: ASCIIGroundOptions) {
+        this._canvas = canvas;
+        const context = canvas.getContext('2d') as RenderingContext2D | null;
+
+        if (!context)
+            throw new Error('Could not get 2D context from the canvas.');
+
+        this._context = context;
+        this._options = resolveOptions(validateOptions(options));
+        this._pacer = new FramePacer(this._options.maxFps, this._options.adaptiveQuality);
+        this._renderer = new CanvasRenderer(context, this.getRendererSettings());
+        this._generator = new FrameGenerator(this._options);
+        this.configureInteraction();
+        this.configurePlayback();
+        this.configureCanvas();
+    }
+
+    /**
+     * Font size in pixels, enlarged by adaptive quality while rendering is too slow.
+     */
+    private get fontSize(): number {
+        return this._options.fontSize * this._pacer.cellScale;
+    }
+
+    private configureCanvas(): void {
+        this._context.font = `${this.fontSize}px ${this._options.fontFamily}`;
+        this._context.textBaseline = 'top';
+
+        // Measure character dimensions.
+        const metrics = this._context.measureText('Ｍ');
+        this._charWidth = metrics.width;
+        this._charHeight = this.fontSize;
+
+        // Calculate grid dimensions.
+        const cols = Math.floor(this._canvas.width / this._charWidth);
+        const rows = Math.floor(this._canvas.height / this._charHeight);
+        this._generator.resize(cols, rows, this._charWidth / this._charHeight);
+        this._transition?.outgoing?.resize(cols, rows, this._charWidth / this._charHeight);
+        this._generator.interaction?.setCellSize(this._charWidth, this._charHeight);
+        this._renderer.configure(this.getRendererSettings());
+    }
+
+    private getRendererSettings(): CanvasRendererSettings {
+        return {
+            width: this._canvas.width,
+            height: this._canvas.height,
+            font: `${this.fontSize}px ${this._options.fontFamily}`,
+            cellWidth: this._charWidth,
+            cellHeight: this._charHeight,
+            backgroundColor: this._options.backgroundColor,
+            glyphAtlas: this._options.glyphAtlas ?? false,
+            dirtyCells: this._options.dirtyCells ?? false,
+        };
+    }
+
+    private configureInteraction(): void {
+        if (!this._options.interaction) {
+            this._pointerTracker?.detach();
+            this._pointerTracker = null;
+            return;
+        }
+
+        if (this._pointerTracker)
+            return;
+
+        if (typeof HTMLCanvasElement !== 'undefined' && this._canvas instanceof HTMLCanvasElement) {
+            this._pointerTracker = new PointerTracker(this._canvas, (input) => this.dispatchPointer(input));
+            this._pointerTracker.attach();
+        }
+    }
+
+    private configurePlayback(): void {
+        const canvas = typeof HTMLCanvasElement !== 'undefined' && this._canvas instanceof HTMLCanvasElement
+            ? this._canvas
+            : null;
+
+        if (canvas && this._options.pauseWhenHidden !== false) {
+            this._visibilityWatcher ??= new VisibilityWatcher(canvas, (visible) => this.setVisibility(visible));
+            this._visibilityWatcher.attach();
+            this._visible = this._visibilityWatcher.visible;
+        } else if (this._visibilityWatcher) {
+            this._visibilityWatcher.detach();
+            this._visibilityWatcher = null;
+            this._visible = true;
+        }
+
+        if (canvas && this._options.reducedMotion !== 'ignore') {
+            this._reducedMotionQuery ??= new ReducedMotionQuery((reduce) => this.setReducedMotion(reduce));
+            this._reducedMotionQuery.attach();
+            this._reduceMotion = this._reducedMotionQuery.matches;
+        } else if (this._reducedMotionQuery) {
+            this._reducedMotionQuery.detach();
+            this._reducedMotionQuery = null;
+            this._reduceMotion = false;
+        }
+
+        this.updatePlayback();
+    }
+
+    /**
+     * How motion is currently reduced, if at all.
+     */
+    private get motion(): 'full' | 'slow' | 'static' {
+        const { reducedMotion = 'static' } = this._options;
+
+        if (!this._reduceMotion || reducedMotion === 'ignore')
+            return 'full';
+
+        return reducedMotion;
+    }
+
+    /**
+     * Run or suspend the animation loop, depending on whether it was started and may play right now.
+     */
+    private updatePlayback(): void {
+        const play = this._running && this._visible && this.motion !== 'static';
+
+        if (play && this._animationId === null) {
+            // Carry on from where the animation was suspended instead of catching up on the time in between.
+            this._lastTime = performance.now();
+            this._pacer.reset();
+            this._animationId = requestAnimationFrame(this.animate);
+        } else if (!play && this._animationId !== null) {
+            cancelAnimationFrame(this._animationId);
+            this._animationId = null;
+        }
+    }
+
+    private animate = (time: number): void => {
+        this._animationId = requestAnimationFrame(this.animate);
+
+        if (!this._pacer.shouldRender(time))
+            return;
+
+        this._currentTime = time;
+        const renderStart = performance.now();
+        this.render(time);
+
+        if (this._pacer.record(performance.now() - renderStart))
+            this.configureCanvas();
+    };
+
+    private render(time: number): void {
+        // Time is accumulated frame by frame, so that changes of speed do not make the pattern jump.
+        const elapsed = Math.max(0, time - this._lastTime) / 1000;
+        this._lastTime = time;
+
+        const transition = this._transition;
+        const progress = transition?.progress(time) ?? 1;
+
+        if (transition)
+            this.applyTweenedOptions(transition.tweenedOptions(progress));
+
+        const slowdown = this.motion === 'slow' ? REDUCED_MOTION_SPEED : 1;
+        const played = elapsed * this._playbackRate * slowdown;
+        this._time += played;
+        this._animationTime += played * this._options.speed;
+        let frame = this._generator.compute(this._animationTime, time);
+
+        if (transition) {
+            frame = transition.blend(frame, progress, elapsed, time, this._options.backgroundColor);
+
+            if (progress >= 1)
+                this._transition = null;
+        }
+
+        const event: FrameEvent = { time, delta: elapsed * 1000, animationTime: this._animationTime };
+        this.renderFrame(frame, event);
+        this._events.emit('frame', event);
+    }
+
+    private renderFrame(frame: CellBuffer, event: FrameEvent): void {
+        const events = this._events;
+
+        if (!events.has('beforeRender') && !events.has('afterRender')) {
+            this._renderer.render(frame);
+            return;
+        }
+
+        const renderEvent = {
+            ...event,
+            context: this._context,
+            frame,
+            cellWidth: this._charWidth,
+            cellHeight: this._charHeight,
+        };
+
+        // Anything drawn after the previous frame is only painted over by a full redraw.
+        if (events.has('afterRender'))
+            this._renderer.invalidate();
+
+        events.emit('beforeRender', renderEvent);
+        this._renderer.render(frame);
+        events.emit('afterRender', renderEvent);
+    }
+
+    /**
+     * Apply intermediate values of a transition without restarting the pattern.
+     */
+    private applyTweenedOptions(options: Partial<ASCIIGroundOptions>): void {
+        if (Object.keys(options).length === 0)
+            return;
+
+        this._generator.updateOptions(options);
+        this._options = this._generator.options;
+
+        if ('backgroundColor' in options)
+            this._renderer.configure(this.getRendererSettings());
+    }
+
+    /**
+     * Jump to the end of a running transition.
+     */
+    private finishTransition(): void {
+        if (!this._transition)
+            return;
+
+        this.applyTweenedOptions(this._transition.finalOptions());
+        this._transition = null;
+    }
+
+    /**
+     * Feed pointer input, in canvas pixel coordinates, to the `interaction` effect.
+     * Window pointer events are tracked automatically for HTML canvases.
+     */
+    dispatchPointer(input: PointerInput): void {
+        this.assertNotDestroyed();
+        this._generator.interaction?.input(input);
+    }
+
+    /**
+     * Initialize the canvas and render the initial state.
+     */
+    init(): ASCIIGround {
+        this.assertNotDestroyed();
+        this.configureCanvas();
+        this.render(this._currentTime);
+        return this;
+    }
+
+    /**
+     * Start the animation from the beginning of the timeline. Use `resume()` to carry on where it was paused.
+     */
+    startAnimation(): void {
+        this.assertNotDestroyed();
+
+        if (this._running)
+            throw new Error('Animation is already running!');
+
+        this._time = 0;
+        this._animationTime = 0;
+        this._generator.restart();
+        this.play();
+    }
+
+    /**
+     * Carry on playing from the current point of the timeline. Does nothing while the animation runs.
+     */
+    resume(): void {
+        this.assertNotDestroyed();
+
+        if (!this._running)
+            this.play();
+    }
+
+    private play(): void {
+        this._running = true;
+        this.updatePlayback();
+
+        // Show the first frame right away when the animation starts out suspended.
+        if (this._animationId === null)
+            this.render(this._currentTime);
+
+        this._events.emit('start', { time: performance.now() });
+    }
+
+    /**
+     * Pause the animation, keeping its point of the timeline for `resume()`.
+     */
+    pause(): void {
+        this.stopAnimation();
+    }
+
+    /**
+     * Jump to the given point of the timeline, in seconds, and draw its frame. Stateful patterns are simulated
+     * up to it, so that the frame is the one shown after playing there with the same `seed`, which takes
+     * longer the further the point is. The animation carries on from there if it is running.
+     */
+    seek(time: number): void {
+        this.assertNotDestroyed();
+        assertValidTime(time);
+        this.finishTransition();
+        this._time = time;
+        this._animationTime = time * this._options.speed;
+        this._generator.seek(this._animationTime);
+
+        // Draw the frame without moving the timeline on by the time since the last one.
+        this._lastTime = this._currentTime;
+        this.render(this._currentTime);
+    }
+
+    /**
+     * Move the timeline by the given number of seconds, e.g. frame by frame while paused.
+     * Negative values step back, down to the beginning.
+     */
+    step(delta: number): void {
+        this.assertNotDestroyed();
+        assertValidStep(delta);
+        this.seek(Math.max(0, this._time + delta));
+    }
+
+    /**
+     * Pause the animation and draw the frame at the given point of the timeline, in seconds,
+     * e.g. for screenshots or tests.
+     */
+    renderAt(time: number): void {
+        this.pause();
+        this.seek(time);
+    }
+
+    /**
+     * Stop the animation.
+     */
+    stopAnimation(): void {
+        this.assertNotDestroyed();
+        const wasRunning = this._running;
+        this._running = false;
+        this.updatePlayback();
+        this.finishTransition();
+
+        if (wasRunning)
+            this._events.emit('stop', { time: performance.now() });
+    }
+
+    /**
+     * Report whether the canvas can be seen. The animation is suspended while it cannot.
+     * Tracked automatically for HTML canvases, unless `pauseWhenHidden` is false.
+     */
+    setVisibility(visible: boolean): void {
+        this.assertNotDestroyed();
+        this._visible = visible;
+        this.updatePlayback();
+    }
+
+    /**
+     * Report whether the user prefers reduced motion, for canvases that cannot query it themselves,
+     * e.g. inside a worker. Tracked automatically for HTML canvases.
+     */
+    setReducedMotion(reduce: boolean): void {
+        this.assertNotDestroyed();
+        this._reduceMotion = reduce;
+        this.updatePlayback();
+    }
+
+    /**
+     * Update animation options. With a `transition`, numbers and colors are interpolated on the running
+     * pattern, while other changes, such as a new pattern, fade in over the previous one.
+     */
+    updateOptions(changes: Partial<ASCIIGroundOptions>, settings: UpdateSettings = {}): void {
+        this.assertNotDestroyed();
+        this.finishTransition();
+        const newOptions = validateOptionChanges(this._options, changes);
+        const { transition } = settings;
+
+        if (transition && transition.duration > 0 && this._animationId !== null)
+            this.startTransition(newOptions, transition);
+        else
+            this.applyOptions(newOptions);
+
+        const options = { ...this._options, ...this._transition?.finalOptions() };
+        this._events.emit('optionsChange', { changes: newOptions, options });
+    }
+
+    private applyOptions(newOptions: Partial<ASCIIGroundOptions>): void {
+        this._generator.updateOptions(newOptions);
+        this._options = this._generator.options;
+
+        this.configureFromOptions(newOptions);
+        this.render(this._currentTime);
+    }
+
+    private startTransition(newOptions: Partial<ASCIIGroundOptions>, transition: TransitionOptions): void {
+        const { tweened, immediate, rest } = splitTweenedOptions(this._options, newOptions);
+        const now = performance.now();
+
+        if (Object.keys(immediate).length > 0) {
+            this._generator.updateOptions(immediate);
+            this._options = this._generator.options;
+            this.configureFromOptions(immediate);
+        }
+
+        if (Object.keys(rest).length === 0) {
+            if (Object.keys(tweened).length > 0)
+                this._transition = new Transition(transition, now, this._options, tweened);
+
+            return;
+        }
+
+        // Keep the current pattern running while its replacement fades in.
+        const outgoing = { generator: this._generator, time: this._animationTime };
+        this._generator = new FrameGenerator({ ...this._options, ...newOptions });
+        this._options = this._generator.options;
+        this._transition = new Transition(transition, now, this._options, {}, outgoing);
+        this.configureFromOptions(newOptions);
+    }
+
+    /**
+     * Apply changed options that concern the canvas rather than the pattern.
+     */
+    private configureFromOptions(newOptions: Partial<ASCIIGroundOptions>): void {
+        if ('interaction' in newOptions)
+            this.configureInteraction();
+
+        if ('pauseWhenHidden' in newOptions || 'reducedMotion' in newOptions)
+            this.configurePlayback();
+
+        if ('maxFps' in newOptions || 'adaptiveQuality' in newOptions)
+            this._pacer.configure(this._options.maxFps, this._options.adaptiveQuality);
+
+        this.configureCanvas();
+    }
+
+    resize(width: number, height: number): void {
+        this.assertNotDestroyed();
+        this._canvas.width = width;
+        this._canvas.height = height;
+        this.configureCanvas();
+        this.render(this._currentTime);
+
+        const { cols, rows } = this._generator.frame;
+        this._events.emit('resize', { width, height, cols, rows });
+    }
+
+    /**
+     * Listen to an event, returning a function that removes the listener again.
+     */
+    on<K extends keyof ASCIIGroundEventMap>(type: K, listener: Listener<ASCIIGroundEventMap[K]>): () => void {
+        this.assertNotDestroyed();
+        return this._events.on(type, listener);
+    }
+
+    off<K extends keyof ASCIIGroundEventMap>(type: K, listener: Listener<ASCIIGroundEventMap[K]>): void {
+        this.assertNotDestroyed();
+        this._events.off(type, listener);
+    }
+
+    /**
+     * Configuration of the instance, with defaults applied and the final values of a running transition,
+     * as plain JSON. Palette functions and image sources cannot be expressed in JSON and are left out.
+     */
+    toJSON(): ASCIIGroundConfig {
+        return createInstanceConfig({ ...this._options, ...this._transition?.finalOptions() });
+    }
+
+    /**
+     * Stop the animation and remove every listener and observer. The instance cannot be used afterwards.
+     */
+    destroy(settings: DestroySettings = {}): void {
+        this.assertNotDestroyed();
+        this._running = false;
+        this.updatePlayback();
+        this._transition = null;
+
+        this._pointerTracker?.detach();
+        this._pointerTracker = null;
+        this._visibilityWatcher?.detach();
+        this._visibilityWatcher = null;
+        this._reducedMotionQuery?.detach();
+        this._reducedMotionQuery = null;
+
+        if (settings.removeCanvas && typeof HTMLCanvasElement !== 'undefined'
+            && this._canvas instanceof HTMLCanvasElement)
+            this._canvas.remove();
+
+        this._events.clear();
+        this._destroyed = true;
+    }
+
+    private assertNotDestroyed(): void {
+        if (this._destroyed)
+            throw new Error('ASCIIGround instance has been destroyed.');
+    }
+}
+
+/**
+ * A canvas covering the page, resized along with the window.
+ */
+class FullPageBackground extends ASCIIGround {
+    constructor(options: ASCIIGroundOptions) {
+        const canvas = document.createElement('canvas');
+        canvas.style.position = 'fixed';
+        canvas.style.top = '0';
+        canvas.style.left = '0';
+        canvas.style.width = '100%';
+        canvas.style.height = '100%';
+        canvas.style.zIndex = '-1';
+        canvas.style.pointerEvents = 'none';
+        canvas.width = window.innerWidth;
+        canvas.height = window.innerHeight;
+        super(canvas, options);
+        // Only added once the options are known to be valid, so that a failed construction leaves nothing behind.
+        document.body.appendChild(canvas);
+        window.addEventListener('resize', this.handleResize);
+    }
+
+    private handleResize = (): void => {
+        this.resize(window.innerWidth, window.innerHeight);
+    };
+
+    /**
+     * Stop the animation, remove every listener and observer, and remove the canvas from the page
+     * unless `removeCanvas` is false.
+     */
+    override destroy(settings: DestroySettings = {}): void {
+        super.destroy({ removeCanvas: true, ...settings });
+        window.removeEventListener('resize', this.handleResize);
+    }
+}
+
+/**
+ * Utility function to create an ASCII background that fills the entire page.
+ * Call `destroy()` on the result to remove it again.
+ */
+export function createFullPageBackground(options: ASCIIGroundOptions): ASCIIGround {
+    return new FullPageBackground(options);
+}
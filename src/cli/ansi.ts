@@ -0,0 +1,132 @@
+import { mixColors, parseColor, type RGBA } from '../color';
+import type { CellBuffer } from '../rendering/cell-buffer';
+
+const ESCAPE = '\u001b[';
+
+export const ANSI = {
+    reset: ESCAPE + '0m',
+    clear: ESCAPE + '2J',
+    hideCursor: ESCAPE + '?25l',
+    showCursor: ESCAPE + '?25h',
+    enterAlternateScreen: ESCAPE + '?1049h',
+    exitAlternateScreen: ESCAPE + '?1049l',
+} as const;
+
+/**
+ * Whether a character takes up two terminal columns, e.g. CJK ideographs and kana.
+ */
+export function isWideCharacter(char: string): boolean {
+    const code = char.codePointAt(0) ?? 0;
+
+    return (code >= 0x1100 && code <= 0x115F)
+        || (code >= 0x2E80 && code <= 0xA4CF && code !== 0x303F)
+        || (code >= 0xAC00 && code <= 0xD7A3)
+        || (code >= 0xF900 && code <= 0xFAFF)
+        || (code >= 0xFE30 && code <= 0xFE4F)
+        || (code >= 0xFF00 && code <= 0xFF60)
+        || (code >= 0xFFE0 && code <= 0xFFE6)
+        || (code >= 0x1F300 && code <= 0x1FAFF)
+        || (code >= 0x20000 && code <= 0x3FFFD);
+}
+
+export interface AnsiRendererSettings {
+    /** Terminal columns taken up by a grid cell. */
+    cellWidth: 1 | 2
+    /** Emit truecolor escape codes. */
+    color: boolean
+    /** Color that translucent cell colors are blended onto. */
+    backgroundColor: string
+    /** Paint the background color behind every cell, instead of keeping the terminal's own. */
+    paintBackground: boolean
+}
+
+/**
+ * Turns cell buffers into ANSI escape sequences that redraw the whole terminal screen.
+ */
+export class AnsiRenderer {
+    private _settings: AnsiRendererSettings;
+    private _background: RGBA;
+    private _sequences = new Map<string, string>();
+
+    constructor(settings: AnsiRendererSettings) {
+        this._settings = settings;
+        this._background = parseColor(settings.backgroundColor);
+    }
+
+    get settings(): Readonly<AnsiRendererSettings> {
+        return this._settings;
+    }
+
+    /**
+     * Escape sequence selecting the given foreground color. Colors that cannot be
+     * parsed, e.g. `hsl()` from a palette callback, fall back to the default color.
+     */
+    private colorSequence(color: string): string {
+        let sequence = this._sequences.get(color);
+
+        if (sequence !== undefined)
+            return sequence;
+
+        try {
+            const parsed = parseColor(color);
+            const { r, g, b } = mixColors(this._background, { ...parsed, a: 1 }, parsed.a);
+            sequence = `${ESCAPE}38;2;${Math.round(r)};${Math.round(g)};${Math.round(b)}m`;
+        } catch {
+            sequence = ESCAPE + '39m';
+        }
+
+        this._sequences.set(color, sequence);
+        return sequence;
+    }
+
+    private backgroundSequence(): string {
+        if (!this._settings.color || !this._settings.paintBackground)
+            return '';
+
+        const { r, g, b } = this._background;
+        return `${ESCAPE}48;2;${Math.round(r)};${Math.round(g)};${Math.round(b)}m`;
+    }
+
+    /**
+     * Format a frame, positioning the cursor at the start of every row so that
+     * nothing scrolls when the last terminal column is written.
+     */
+    render(frame: CellBuffer): string {
+        const { cellWidth, color } = this._settings;
+        const { chars, colors, cols, rows } = frame;
+        const background = this.backgroundSequence();
+        let output = '';
+
+        for (let row = 0; row < rows; row++) {
+            let currentColor = '';
+            output += `${ESCAPE}${row + 1};1H${background}`;
+
+            for (let col = 0; col < cols; col++) {
+                const index = row * cols + col;
+                const char = chars[index];
+
+                if (char === '') {
+                    output += ' '.repeat(cellWidth);
+                    continue;
+                }
+
+                if (color) {
+                    const sequence = this.colorSequence(colors[index]);
+
+                    if (sequence !== currentColor) {
+                        output += sequence;
+                        currentColor = sequence;
+                    }
+                }
+
+                const width = isWideCharacter(char) ? 2 : 1;
+                output += width > cellWidth ? ' '.repeat(cellWidth) : char + ' '.repeat(cellWidth - width);
+            }
+
+            if (color)
+                output += ANSI.reset;
+        }
+
+        return output;
+    }
+}
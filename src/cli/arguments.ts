@@ -0,0 +1,333 @@
+import type { ASCIIGroundOptions } from '../options';
+import { validateOptions } from '../validation';
+
+type FlagType = 'string' | 'number' | 'boolean' | 'characters' | 'list' | 'numbers' | 'ranges' | readonly string[];
+
+interface FlagSpec {
+    /** Options field the flag sets, or a field of an option object such as `japanRain.fade`. */
+    field: string;
+    type: FlagType;
+    description: string;
+}
+
+/**
+ * Flags that map onto ASCIIGroundOptions fields. Canvas-only fields, such as fonts, are left out.
+ */
+const OPTION_FLAGS: Record<string, FlagSpec> = {
+    'pattern': { field: 'pattern', type: 'string', description: 'Animation pattern.' },
+    'characters': {
+        field: 'characters',
+        type: 'characters',
+        description: 'Characters from lightest to darkest, e.g. " .:+#".',
+    },
+    'speed': { field: 'speed', type: 'number', description: 'Animation speed multiplier.' },
+    'color': { field: 'color', type: 'string', description: 'Text color, hex, rgb() or a CSS color name.' },
+    'palette': { field: 'palette', type: 'list', description: 'Comma separated colors picked by the pattern value.' },
+    'palette-cycle': { field: 'paletteCycle', type: 'number', description: 'Speed the palette cycles at.' },
+    'background-color': {
+        field: 'backgroundColor',
+        type: 'string',
+        description: 'Background color, hex, rgb() or a CSS color name.',
+    },
+    'direction': {
+        field: 'direction',
+        type: ['left', 'right', 'up', 'down'],
+        description: 'Direction of animation.',
+    },
+    'amplitude-x': { field: 'amplitudeX', type: 'number', description: 'Horizontal wave amplitude.' },
+    'amplitude-y': { field: 'amplitudeY', type: 'number', description: 'Vertical wave amplitude.' },
+    'frequency': { field: 'frequency', type: 'number', description: 'Wave frequency.' },
+    'noise-scale': { field: 'noiseScale', type: 'number', description: 'Perlin noise scale factor.' },
+    'noise-type': { field: 'noiseType', type: ['perlin', 'simplex'], description: 'Noise function.' },
+    'octaves': { field: 'octaves', type: 'number', description: 'Number of noise octaves.' },
+    'lacunarity': { field: 'lacunarity', type: 'number', description: 'Frequency factor between octaves.' },
+    'gain': { field: 'gain', type: 'number', description: 'Amplitude factor between octaves.' },
+    'warp': { field: 'warp', type: 'number', description: 'Domain warping strength.' },
+    'drift': { field: 'drift', type: 'number', description: 'Speed the noise moves in its direction at.' },
+    'rain-density': { field: 'rainDensity', type: 'number', description: 'Rain density, 0-1.' },
+    'japan-rain-glyphs': {
+        field: 'japanRain.glyphs',
+        type: 'characters',
+        description: 'Glyphs japan-rain drops are made of.',
+    },
+    'japan-rain-ranges': {
+        field: 'japanRain.ranges',
+        type: 'ranges',
+        description: 'Unicode ranges japan-rain glyphs are picked from, e.g. "0x30A0-0x30FF".',
+    },
+    'japan-rain-trail-length': {
+        field: 'japanRain.trailLength',
+        type: 'numbers',
+        description: 'Shortest and longest japan-rain trail, e.g. "8,27".',
+    },
+    'japan-rain-fall-speed': {
+        field: 'japanRain.fallSpeed',
+        type: 'numbers',
+        description: 'Slowest and fastest japan-rain drop, e.g. "30,102".',
+    },
+    'japan-rain-flicker-rate': {
+        field: 'japanRain.flickerRate',
+        type: 'number',
+        description: 'Times per second a japan-rain drop changes a glyph.',
+    },
+    'japan-rain-head-glow': {
+        field: 'japanRain.headGlow',
+        type: 'string',
+        description: 'Color of the leading glyph of japan-rain drops.',
+    },
+    'japan-rain-fade': {
+        field: 'japanRain.fade',
+        type: 'number',
+        description: 'Opacity the previous japan-rain frame fades by, 0-1.',
+    },
+    'wind': { field: 'wind', type: 'number', description: 'Angle the rain falls at, in degrees from vertical.' },
+    'rain-splash': { field: 'rainSplash', type: 'characters', description: 'Characters drops splash into.' },
+    'rain-floor': { field: 'rainFloor', type: 'number', description: 'Row drops land on, counted from the bottom.' },
+    'rain-direction': {
+        field: 'rainDirection',
+        type: ['vertical', 'diagonal-left', 'diagonal-right'],
+        description: 'Rain direction, deprecated in favor of --wind.',
+    },
+    'fire-intensity': { field: 'fireIntensity', type: 'number', description: 'Heat of the flames at the source, 0-1.' },
+    'fire-cooling': { field: 'fireCooling', type: 'number', description: 'How quickly flames cool down, 0-1.' },
+    'star-density': { field: 'starDensity', type: 'number', description: 'Stars per grid cell.' },
+    'snow-density': { field: 'snowDensity', type: 'number', description: 'Flakes per grid cell.' },
+    'snow-gravity': { field: 'snowGravity', type: 'number', description: 'Speed flakes fall at, in cells per second.' },
+    'snow-wind': { field: 'snowWind', type: 'number', description: 'Speed the wind blows flakes sideways at.' },
+    'life-rule': { field: 'lifeRule', type: 'string', description: 'Life rule in B/S notation, e.g. "B3/S23".' },
+    'life-density': { field: 'lifeDensity', type: 'number', description: 'Share of cells alive when seeded, 0-1.' },
+    'life-wrap': { field: 'lifeWrap', type: 'boolean', description: 'Wrap life around the edges of the grid.' },
+    'life-mapping': {
+        field: 'lifeMapping',
+        type: ['age', 'neighbors'],
+        description: 'What picks the character of a living cell.',
+    },
+    'seed': { field: 'seed', type: 'number', description: 'Seed for noise and randomness.' },
+};
+
+export interface CliOptions {
+    options: ASCIIGroundOptions;
+    /** Frames rendered per second. */
+    fps: number;
+    /** Seconds to play before exiting, or null to play until interrupted. */
+    duration: number | null;
+    /** Terminal columns per grid cell, or null to detect it from the characters drawn. */
+    cellWidth: 1 | 2 | null;
+    /** Size of the output in terminal columns and rows, or null to fill the terminal. */
+    columns: number | null;
+    rows: number | null;
+    /** Seconds into the animation of the frame printed when the output is not a terminal. */
+    time: number;
+    /** Whether to emit truecolor escape codes. */
+    color: boolean;
+    help: boolean;
+    listPatterns: boolean;
+}
+
+const DEFAULT_OPTIONS: ASCIIGroundOptions = {
+    pattern: 'perlin',
+    characters: [' ', '.', ':', ';', '+', '*', '#', '@'],
+    speed: 0.5,
+};
+
+/**
+ * Convert `noiseScale` style names to `noise-scale`, so that both spellings are accepted.
+ */
+function toKebabCase(name: string): string {
+    return name.replace(/[A-Z]/g, (letter) => '-' + letter.toLowerCase());
+}
+
+function parseNumber(flag: string, value: string): number {
+    const number = Number(value);
+
+    if (value.trim() === '' || !Number.isFinite(number))
+        throw new Error(`Flag --${flag} expects a number, got "${value}".`);
+
+    return number;
+}
+
+function parseSize(flag: string, value: string): number {
+    const size = parseNumber(flag, value);
+
+    if (!Number.isInteger(size) || size <= 0)
+        throw new Error(`Flag --${flag} expects a positive whole number.`);
+
+    return size;
+}
+
+/**
+ * Parse ranges such as `0x30A0-0x30FF,0x4E00-0x4E7F` into pairs of numbers.
+ */
+function parseRanges(flag: string, value: string): number[][] {
+    return value.split(',').map((range) => {
+        const bounds = range.split('-');
+
+        if (bounds.length !== 2)
+            throw new Error(`Flag --${flag} expects ranges such as "0x30A0-0x30FF", got "${range.trim()}".`);
+
+        return bounds.map((bound) => parseNumber(flag, bound.trim()));
+    });
+}
+
+function parseValue(flag: string, type: FlagType, value: string): unknown {
+    if (Array.isArray(type)) {
+        if (!type.includes(value))
+            throw new Error(`Flag --${flag} expects one of ${type.join(', ')}, got "${value}".`);
+
+        return value;
+    }
+
+    switch (type) {
+        case 'number':
+            return parseNumber(flag, value);
+        case 'boolean':
+            if (value !== 'true' && value !== 'false')
+                throw new Error(`Flag --${flag} expects true or false, got "${value}".`);
+
+            return value === 'true';
+        case 'numbers':
+            return value.split(',').map((item) => parseNumber(flag, item.trim()));
+        case 'ranges':
+            return parseRanges(flag, value);
+        case 'characters':
+            return [...value];
+        case 'list':
+            return value.split(',').map((item) => item.trim()).filter(Boolean);
+        default:
+            return value;
+    }
+}
+
+/**
+ * Set an options field, creating the option object of fields such as `japanRain.fade`.
+ */
+function setField(options: Record<string, unknown>, path: string, value: unknown): void {
+    const [field, nested] = path.split('.');
+
+    if (nested === undefined)
+        options[field] = value;
+    else
+        options[field] = { ...(options[field] as Record<string, unknown> | undefined), [nested]: value };
+}
+
+/**
+ * Parse command line arguments, excluding the node executable and script path.
+ */
+export function parseArguments(argv: string[], environment: Record<string, string | undefined> = {}): CliOptions {
+    const options: Record<string, unknown> = { ...DEFAULT_OPTIONS };
+
+    const cli: CliOptions = {
+        options: options as unknown as ASCIIGroundOptions,
+        fps: 30,
+        duration: null,
+        cellWidth: null,
+        columns: null,
+        rows: null,
+        time: 10,
+        color: !environment.NO_COLOR,
+        help: false,
+        listPatterns: false,
+    };
+
+    for (let index = 0; index < argv.length; index++) {
+        const argument = argv[index];
+
+        if (!argument.startsWith('--'))
+            throw new Error(`Unexpected argument "${argument}".`);
+
+        const separator = argument.indexOf('=');
+        const flag = toKebabCase(argument.slice(2, separator === -1 ? undefined : separator));
+
+        const readValue = (): string => {
+            if (separator !== -1)
+                return argument.slice(separator + 1);
+
+            if (index + 1 >= argv.length)
+                throw new Error(`Flag --${flag} expects a value.`);
+
+            return argv[++index];
+        };
+
+        switch (flag) {
+            case 'help':
+                cli.help = true;
+                continue;
+            case 'list-patterns':
+                cli.listPatterns = true;
+                continue;
+            case 'no-color':
+                cli.color = false;
+                continue;
+            case 'fps':
+                cli.fps = parseNumber(flag, readValue());
+
+                if (cli.fps <= 0)
+                    throw new Error('Flag --fps expects a positive number.');
+
+                continue;
+            case 'duration':
+                cli.duration = parseNumber(flag, readValue());
+                continue;
+            case 'columns':
+                cli.columns = parseSize(flag, readValue());
+                continue;
+            case 'rows':
+                cli.rows = parseSize(flag, readValue());
+                continue;
+            case 'time':
+                cli.time = parseNumber(flag, readValue());
+
+                if (cli.time < 0)
+                    throw new Error('Flag --time expects a number of at least 0.');
+
+                continue;
+            case 'cell-width': {
+                const width = parseValue(flag, ['1', '2'], readValue());
+                cli.cellWidth = width === '1' ? 1 : 2;
+                continue;
+            }
+        }
+
+        const spec = OPTION_FLAGS[flag];
+
+        if (!spec)
+            throw new Error(`Unknown flag --${flag}, see --help.`);
+
+        setField(options, spec.field, parseValue(flag, spec.type, readValue()));
+    }
+
+    // Reports every invalid value at once, e.g. an unknown pattern or a density out of range.
+    cli.options = validateOptions(cli.options);
+    return cli;
+}
+
+/**
+ * Help text listing every flag.
+ */
+export function formatUsage(): string {
+    const rows: Array<[string, string]> = [
+        ...Object.entries(OPTION_FLAGS).map(([flag, { type, description }]): [string, string] => [
+            `--${flag} <${typeof type === 'string' ? type : type.join('|')}>`,
+            description
+        ]),
+        ['--fps <number>', 'Frames per second, 30 by default.'],
+        ['--duration <number>', 'Seconds to play before exiting. Plays until interrupted by default.'],
+        ['--cell-width <1|2>', 'Terminal columns per cell. Detected from the characters by default.'],
+        ['--columns <number>', 'Terminal columns to fill. The size of the terminal, or else COLUMNS, by default.'],
+        ['--rows <number>', 'Terminal rows to fill. The size of the terminal, or else LINES, by default.'],
+        ['--time <number>', 'Seconds into the animation of the frame printed outside a terminal, 10 by default.'],
+        ['--no-color', 'Disable colors. Also disabled by the NO_COLOR environment variable.'],
+        ['--list-patterns', 'List the available patterns.'],
+        ['--help', 'Show this help.']
+    ];
+
+    const width = Math.max(...rows.map(([flag]) => flag.length));
+
+    return [
+        'Usage: asciiground [flags]',
+        '',
+        'Plays an ASCIIGround pattern in the terminal. Press q or Ctrl+C to exit.',
+        '',
+        ...rows.map(([flag, description]) => `  ${flag.padEnd(width)}  ${description}`)
+    ].join('\n');
+}
@@ -0,0 +1,141 @@
+/**
+ * Entry point of the `asciiground` command, which plays a pattern in the terminal.
+ */
+import { renderFrame, renderFrameToString } from '../headless';
+import { resolveOptions } from '../options';
+import { getPatternNames } from '../patterns';
+import { FrameGenerator } from '../rendering/frame-generator';
+import { ANSI, AnsiRenderer, isWideCharacter } from './ansi';
+import { formatUsage, parseArguments, type CliOptions } from './arguments';
+
+const FALLBACK_COLUMNS = 80;
+const FALLBACK_ROWS = 24;
+
+/** Patterns that need options the command line cannot give, such as an image source. */
+const UNLISTED_PATTERNS = new Set(['image']);
+
+/**
+ * A size from the environment, such as COLUMNS, or null when it is not set to a positive whole number.
+ */
+function environmentSize(value: string | undefined): number | null {
+    const size = Number(value);
+    return Number.isInteger(size) && size > 0 ? size : null;
+}
+
+/**
+ * Use two terminal columns per cell when the pattern draws wide characters, e.g. kana.
+ */
+function detectCellWidth(cli: CliOptions): 1 | 2 {
+    if (cli.cellWidth)
+        return cli.cellWidth;
+
+    return renderFrame(cli.options, 0, 16, 16).chars.some(isWideCharacter) ? 2 : 1;
+}
+
+/**
+ * Animate the pattern on the terminal until it is interrupted or `duration` runs out.
+ */
+function play(cli: CliOptions, stdout: NodeJS.WriteStream, stdin: NodeJS.ReadStream): Promise<void> {
+    const options = resolveOptions(cli.options);
+    const cellWidth = detectCellWidth(cli);
+    const generator = new FrameGenerator(options);
+
+    const renderer = new AnsiRenderer({
+        cellWidth,
+        color: cli.color,
+        backgroundColor: options.backgroundColor,
+        paintBackground: cli.options.backgroundColor !== undefined,
+    });
+
+    const resize = () => {
+        const cols = Math.floor((cli.columns ?? (stdout.columns || FALLBACK_COLUMNS)) / cellWidth);
+        // Terminal character cells are about twice as tall as they are wide.
+        generator.resize(cols, cli.rows ?? (stdout.rows || FALLBACK_ROWS), cellWidth / 2);
+        stdout.write(ANSI.clear);
+    };
+
+    return new Promise((resolve) => {
+        const startTime = performance.now();
+
+        const draw = () => {
+            const animationTime = ((performance.now() - startTime) / 1000) * options.speed;
+            stdout.write(renderer.render(generator.compute(animationTime)));
+        };
+
+        const handleKey = (data: Buffer) => {
+            const key = data.toString();
+
+            // Raw mode delivers Ctrl+C as a character instead of a signal.
+            if (key === 'q' || key === '\u0003' || key === '\u001b')
+                stop();
+        };
+
+        const interval = setInterval(draw, 1000 / cli.fps);
+        const timeout = cli.duration === null ? null : setTimeout(() => stop(), cli.duration * 1000);
+
+        const stop = () => {
+            clearInterval(interval);
+
+            if (timeout)
+                clearTimeout(timeout);
+
+            stdout.off('resize', resize);
+            process.off('SIGINT', stop);
+            process.off('SIGTERM', stop);
+
+            if (stdin.isTTY) {
+                stdin.off('data', handleKey);
+                stdin.setRawMode(false);
+                stdin.pause();
+            }
+
+            stdout.write(ANSI.reset + ANSI.showCursor + ANSI.exitAlternateScreen);
+            resolve();
+        };
+
+        stdout.write(ANSI.enterAlternateScreen + ANSI.hideCursor);
+        resize();
+        draw();
+        stdout.on('resize', resize);
+        process.on('SIGINT', stop);
+        process.on('SIGTERM', stop);
+
+        if (stdin.isTTY) {
+            stdin.setRawMode(true);
+            stdin.resume();
+            stdin.on('data', handleKey);
+        }
+    });
+}
+
+async function main(): Promise<void> {
+    const cli = parseArguments(process.argv.slice(2), process.env);
+    const { stdout, stdin } = process;
+
+    if (cli.help) {
+        stdout.write(formatUsage() + '\n');
+        return;
+    }
+
+    if (cli.listPatterns) {
+        stdout.write(getPatternNames().filter((name) => !UNLISTED_PATTERNS.has(name)).join('\n') + '\n');
+        return;
+    }
+
+    // Print a single plain frame when the output is not a terminal, e.g. when piped to a file.
+    // It is taken a while into the animation, so that stateful patterns have filled the grid.
+    if (!stdout.isTTY) {
+        const columns = cli.columns ?? environmentSize(process.env.COLUMNS) ?? FALLBACK_COLUMNS;
+        const rows = cli.rows ?? environmentSize(process.env.LINES) ?? FALLBACK_ROWS;
+        const cols = Math.floor(columns / detectCellWidth(cli));
+        stdout.write(renderFrameToString(cli.options, cli.time * 1000, cols, rows) + '\n');
+        return;
+    }
+
+    await play(cli, stdout, stdin);
+}
+
+main().catch((error: unknown) => {
+    process.stderr.write(`asciiground: ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exitCode = 1;
+});
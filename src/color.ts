@@ -0,0 +1,133 @@
+import { NAMED_COLORS } from './named-colors';
+
+/**
+ * A color with 0-255 channels and an alpha of 0-1.
+ */
+export interface RGBA {
+    r: number;
+    g: number;
+    b: number;
+    a: number;
+}
+
+const HEX_PATTERN = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const RGB_PATTERN = /^rgba?\(\s*([^)]+)\)$/i;
+
+/**
+ * Parse a hex (`#rgb`, `#rgba`, `#rrggbb`, `#rrggbbaa`), `rgb()`/`rgba()` or CSS named color.
+ */
+export function parseColor(color: string): RGBA {
+    const value = color.trim();
+    const name = value.toLowerCase();
+
+    if (name === 'transparent')
+        return { r: 0, g: 0, b: 0, a: 0 };
+
+    if (Object.hasOwn(NAMED_COLORS, name))
+        return parseColor(NAMED_COLORS[name]);
+
+    const hex = HEX_PATTERN.exec(value);
+
+    if (hex) {
+        let digits = hex[1];
+
+        if (digits.length <= 4)
+            digits = [...digits].map((digit) => digit + digit).join('');
+
+        const channel = (index: number) => parseInt(digits.slice(index * 2, index * 2 + 2), 16);
+
+        return {
+            r: channel(0),
+            g: channel(1),
+            b: channel(2),
+            a: digits.length === 8 ? channel(3) / 255 : 1,
+        };
+    }
+
+    const rgb = RGB_PATTERN.exec(value);
+
+    if (rgb) {
+        const parts = rgb[1].split(/[\s,/]+/).filter(Boolean);
+
+        if (parts.length === 3 || parts.length === 4) {
+            const [r, g, b] = parts.slice(0, 3).map((part) =>
+                part.endsWith('%') ? parseFloat(part) * 2.55 : parseFloat(part)
+            );
+
+            const alpha = parts[3];
+            const a = alpha === undefined ? 1 : alpha.endsWith('%') ? parseFloat(alpha) / 100 : parseFloat(alpha);
+
+            if ([r, g, b, a].every(Number.isFinite))
+                return { r, g, b, a };
+        }
+    }
+
+    throw new Error(`Unsupported color "${color}", expected a hex, rgb() or named color.`);
+}
+
+/**
+ * Format a color as `#rrggbb` when opaque, or as `rgba()` otherwise.
+ */
+export function formatColor({ r, g, b, a }: RGBA): string {
+    const clamp = (channel: number) => Math.max(0, Math.min(255, Math.round(channel)));
+
+    if (a >= 1)
+        return '#' + [r, g, b].map((channel) => clamp(channel).toString(16).padStart(2, '0')).join('');
+
+    return `rgba(${clamp(r)}, ${clamp(g)}, ${clamp(b)}, ${Math.max(0, +a.toFixed(3))})`;
+}
+
+/**
+ * Linearly interpolate between two colors.
+ */
+export function mixColors(from: RGBA, to: RGBA, t: number): RGBA {
+    return {
+        r: from.r + (to.r - from.r) * t,
+        g: from.g + (to.g - from.g) * t,
+        b: from.b + (to.b - from.b) * t,
+        a: from.a + (to.a - from.a) * t,
+    };
+}
+
+/**
+ * Mixes colors given as strings, caching parsed colors between frames. Colors that cannot be
+ * parsed, such as hsl() from palette callbacks, switch over halfway instead of being blended.
+ */
+export class ColorMixer {
+    private _parsedColors = new Map<string, RGBA | null>();
+
+    mix(from: string, to: string, amount: number): string {
+        if (amount <= 0)
+            return from;
+
+        if (amount >= 1 || from === to)
+            return to;
+
+        const parsedFrom = this.parse(from);
+        const parsedTo = this.parse(to);
+
+        if (!parsedFrom || !parsedTo)
+            return amount >= 0.5 ? to : from;
+
+        return formatColor(mixColors(parsedFrom, parsedTo, amount));
+    }
+
+    /**
+     * Parse a color, or return null when it is not supported by `parseColor()`.
+     */
+    parse(color: string): RGBA | null {
+        let parsed = this._parsedColors.get(color);
+
+        if (parsed === undefined) {
+            try {
+                parsed = parseColor(color);
+            } catch {
+                parsed = null;
+            }
+
+            this._parsedColors.set(color, parsed);
+        }
+
+        return parsed;
+    }
+}
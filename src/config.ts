@@ -0,0 +1,92 @@
+import { resolveOptions, type ASCIIGroundOptions, type LayerOptions } from './options';
+import { presets, type PresetName } from './presets';
+import { validateOptions } from './validation';
+
+/** Version of the config format, raised whenever older configs can no longer be read as they are. */
+export const CONFIG_VERSION = 1;
+
+/**
+ * Configuration of an instance as plain JSON, e.g. to store it or to share a look.
+ */
+export interface ASCIIGroundConfig {
+    /** Version of the config format, `CONFIG_VERSION` for configs of this release. */
+    version: number
+    /** Preset that `options` extend, if any. */
+    preset?: PresetName
+    /** Options, which only need to set the required ones when they do not extend a preset. */
+    options: Partial<ASCIIGroundOptions>
+}
+
+/**
+ * Leave out options that JSON cannot hold: palette functions, and image sources of the image pattern and masks.
+ */
+function toPlainOptions<T extends Partial<ASCIIGroundOptions>>(options: T): T {
+    const { palette, image: _image, mask, layers, ...rest } = options;
+
+    return {
+        ...rest,
+        ...(typeof palette !== 'function' && { palette }),
+        ...(mask?.shape.type !== 'image' && { mask }),
+        ...(layers && { layers: layers.map((layer: LayerOptions) => toPlainOptions(layer)) }),
+    } as T;
+}
+
+/**
+ * Create the config of the given options, which can be turned into JSON as it is.
+ */
+export function createConfig(options: Partial<ASCIIGroundOptions>): ASCIIGroundConfig {
+    // A round trip through JSON copies the options and drops the ones that are not set.
+    const plain = JSON.parse(JSON.stringify(toPlainOptions(options))) as Partial<ASCIIGroundOptions>;
+    return { version: CONFIG_VERSION, options: plain };
+}
+
+/**
+ * Create the config of an instance with the given options. Defaults are written out, so that
+ * the config keeps its look when later releases change them.
+ */
+export function createInstanceConfig(options: ASCIIGroundOptions): ASCIIGroundConfig {
+    return createConfig(resolveOptions(options));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read the options of a config, given as JSON or as an object. Configs of another version
+ * or of the wrong shape are rejected, and the options are validated like those of an instance.
+ */
+export function parseConfig(json: string | ASCIIGroundConfig): ASCIIGroundOptions {
+    let config: unknown = json;
+
+    if (typeof json === 'string') {
+        try {
+            config = JSON.parse(json);
+        } catch (error) {
+            throw new Error(`Invalid ASCIIGround config, it is not valid JSON: ${(error as Error).message}`);
+        }
+    }
+
+    if (!isRecord(config))
+        throw new Error('Invalid ASCIIGround config, expected an object with "version" and "options".');
+
+    if (config.version !== CONFIG_VERSION) {
+        throw new Error(
+            `Unsupported ASCIIGround config version ${JSON.stringify(config.version)}, expected ${CONFIG_VERSION}.`
+        );
+    }
+
+    if (!isRecord(config.options))
+        throw new Error('Invalid ASCIIGround config, expected "options" to be an object.');
+
+    const { preset } = config;
+
+    if (preset !== undefined && (typeof preset !== 'string' || !Object.hasOwn(presets, preset))) {
+        throw new Error(
+            `Unknown preset ${JSON.stringify(preset)}, expected one of ${Object.keys(presets).join(', ')}.`
+        );
+    }
+
+    const base = preset === undefined ? {} : presets[preset as PresetName];
+    return validateOptions({ ...base, ...config.options } as ASCIIGroundOptions);
+}
@@ -1,9 +1,52 @@
-import { ASCIIGround, type ASCIIGroundOptions } from '../index.js';
+import {
+    ASCIIGround,
+    parseConfig,
+    presets,
+    type ASCIIGroundOptions,
+    type InteractionEffect,
+    type PatternName,
+    type PresetName
+} from '../index.js';
 import '../../docs/styles/common.css';
 import '../../docs/styles/demo.css';
 
 let asciiGround: ASCIIGround | null = null;
 
+/** Prefix of the URL hash holding the config of the current look. */
+const CONFIG_HASH = '#config=';
+
+/** Controls that hold an option of the same name. */
+const OPTION_CONTROLS = [
+    'pattern',
+    'speed',
+    'fontSize',
+    'fontFamily',
+    'color',
+    'backgroundColor',
+    'direction',
+    'amplitudeX',
+    'amplitudeY',
+    'frequency',
+    'noiseScale',
+    'rainDensity',
+    'wind'
+] as const;
+
+/**
+ * Read the options shared through the URL hash, if any.
+ */
+function getOptionsFromHash(): ASCIIGroundOptions | null {
+    if (!location.hash.startsWith(CONFIG_HASH))
+        return null;
+
+    try {
+        return parseConfig(decodeURIComponent(location.hash.slice(CONFIG_HASH.length)));
+    } catch (error) {
+        console.error('Could not load the config from the URL:', error);
+        return null;
+    }
+}
+
 function initDemo() {
     const canvas = document.getElementById('background-canvas') as HTMLCanvasElement;
     const loading = document.getElementById('loading') as HTMLElement;
@@ -26,8 +69,7 @@ function initDemo() {
     window.addEventListener('resize', resizeCanvas);
 
     function getOptionsFromControls(): ASCIIGroundOptions {
-        const pattern = (document.getElementById('pattern') as HTMLSelectElement).value as 
-            'perlin' | 'wave' | 'rain' | 'static' | 'japan-rain';
+        const pattern = (document.getElementById('pattern') as HTMLSelectElement).value as PatternName;
         const charactersInput = (document.getElementById('characters') as HTMLInputElement).value;
         const characters = charactersInput.split(',').map(c => c.trim());
         const speed = parseFloat((document.getElementById('speed') as HTMLInputElement).value);
@@ -42,8 +84,9 @@ function initDemo() {
         const frequency = parseFloat((document.getElementById('frequency') as HTMLInputElement).value);
         const noiseScale = parseFloat((document.getElementById('noiseScale') as HTMLInputElement).value);
         const rainDensity = parseFloat((document.getElementById('rainDensity') as HTMLInputElement).value);
-        const rainDirection = (document.getElementById('rainDirection') as HTMLSelectElement).value as 
-            'vertical' | 'diagonal-left' | 'diagonal-right';
+        const wind = parseFloat((document.getElementById('wind') as HTMLInputElement).value);
+        const interaction = (document.getElementById('interaction') as HTMLSelectElement).value as
+            InteractionEffect | '';
 
         return {
             pattern,
@@ -59,33 +102,83 @@ function initDemo() {
             frequency,
             noiseScale,
             rainDensity,
-            rainDirection,
+            wind,
+            interaction: interaction ? { effect: interaction } : undefined,
+            // Fields are read while they are typed in, so half-typed values are corrected instead of thrown.
+            validation: 'warn',
         };
     }
 
-    const options = getOptionsFromControls();
-    asciiGround = new ASCIIGround(canvas, options);
-    asciiGround.init();
+    /**
+     * Show the given options in the controls. Options without a control are kept by the instance.
+     */
+    function setControlsFromOptions(options: ASCIIGroundOptions) {
+        for (const name of OPTION_CONTROLS) {
+            const value = options[name];
+
+            if (value !== undefined)
+                (document.getElementById(name) as HTMLInputElement | HTMLSelectElement).value = String(value);
+        }
+
+        (document.getElementById('characters') as HTMLInputElement).value = options.characters.join(',');
+        (document.getElementById('interaction') as HTMLSelectElement).value = options.interaction?.effect ?? '';
+    }
+
+    /**
+     * Keep the current look in the URL, so that it can be shared by copying the address.
+     */
+    function saveToHash() {
+        if (asciiGround)
+            history.replaceState(null, '', CONFIG_HASH + encodeURIComponent(JSON.stringify(asciiGround.toJSON())));
+    }
+
+    /**
+     * Replace the instance with one of the given options, so that no options of the previous look linger.
+     */
+    function applyOptions(options: ASCIIGroundOptions) {
+        asciiGround?.destroy();
+        asciiGround = new ASCIIGround(canvas, { ...options, validation: 'warn' }).init();
+        setControlsFromOptions(asciiGround.toJSON().options as ASCIIGroundOptions);
+
+        if (toggleBtn.checked)
+            asciiGround.startAnimation();
+
+        saveToHash();
+    }
+
+    const toggleBtn = document.getElementById('toggleBtn') as HTMLInputElement;
+    const presetSelect = document.getElementById('preset') as HTMLSelectElement;
+
+    for (const name of Object.keys(presets))
+        presetSelect.add(new Option(name, name));
+
+    applyOptions(getOptionsFromHash() ?? getOptionsFromControls());
 
     loading.style.display = 'none';
     controls.classList.remove('hidden');
-    asciiGround.startAnimation();
 
     function updateASCIIGround() {
         if (asciiGround) {
-            const newOptions = getOptionsFromControls();
-            asciiGround.updateOptions(newOptions);
+            presetSelect.value = '';
+            asciiGround.updateOptions(getOptionsFromControls());
+            saveToHash();
         }
     }
 
     const formControls = controls.querySelectorAll('input, select');
 
     formControls.forEach(control => {
+        if (control === presetSelect || control === toggleBtn)
+            return;
+
         control.addEventListener('change', updateASCIIGround);
         control.addEventListener('input', updateASCIIGround);
     });
 
-    const toggleBtn = document.getElementById('toggleBtn') as HTMLInputElement;
+    presetSelect.addEventListener('change', () => {
+        if (presetSelect.value)
+            applyOptions(presets[presetSelect.value as PresetName]);
+    });
 
     toggleBtn.addEventListener('change', () => {
         if (asciiGround) {
@@ -0,0 +1,101 @@
+import type { ASCIIGroundOptions, ResolvedOptions } from './options';
+import type { CellBuffer } from './rendering/cell-buffer';
+import type { RenderingContext2D } from './rendering/glyph-atlas';
+
+export interface FrameEvent {
+    /** Timestamp of the frame, in milliseconds as returned by `performance.now()`. */
+    time: number
+    /** Milliseconds passed since the previous frame. */
+    delta: number
+    /** Time the pattern is rendered at, i.e. seconds scaled by `speed`. */
+    animationTime: number
+}
+
+export interface RenderEvent extends FrameEvent {
+    /** Context of the canvas being drawn on. */
+    context: RenderingContext2D
+    /** Characters and colors of the frame. Changes made before rendering are drawn. */
+    frame: CellBuffer
+    /** Size of a grid cell in pixels. */
+    cellWidth: number
+    cellHeight: number
+}
+
+export interface ResizeEvent {
+    /** Canvas size in pixels. */
+    width: number
+    height: number
+    /** Grid size in cells. */
+    cols: number
+    rows: number
+}
+
+export interface OptionsChangeEvent {
+    /** Options passed to `updateOptions()`. */
+    changes: Partial<ASCIIGroundOptions>
+    /** Options in effect afterwards. While a transition plays, tweened options only reach these values at its end. */
+    options: ResolvedOptions
+}
+
+export interface PlaybackEvent {
+    /** Timestamp of the change, in milliseconds as returned by `performance.now()`. */
+    time: number
+}
+
+/**
+ * Events emitted by ASCIIGround, along with the data passed to their listeners.
+ */
+export interface ASCIIGroundEventMap {
+    /** A frame was rendered. */
+    frame: FrameEvent
+    /** A frame is about to be drawn onto the canvas. */
+    beforeRender: RenderEvent
+    /** A frame was drawn onto the canvas, e.g. to draw an overlay on top of it. */
+    afterRender: RenderEvent
+    /** The canvas was resized through `resize()`. */
+    resize: ResizeEvent
+    /** Options were changed through `updateOptions()`. */
+    optionsChange: OptionsChangeEvent
+    /** The animation was started. */
+    start: PlaybackEvent
+    /** The animation was stopped. */
+    stop: PlaybackEvent
+}
+
+export type Listener<T> = (event: T) => void;
+
+/**
+ * Keeps the listeners of a set of typed events.
+ */
+export class EventEmitter<EventMap> {
+    private _listeners: { [K in keyof EventMap]?: Set<Listener<EventMap[K]>> } = {};
+
+    /**
+     * Add a listener, returning a function that removes it again.
+     */
+    on<K extends keyof EventMap>(type: K, listener: Listener<EventMap[K]>): () => void {
+        (this._listeners[type] ??= new Set()).add(listener);
+        return () => this.off(type, listener);
+    }
+
+    off<K extends keyof EventMap>(type: K, listener: Listener<EventMap[K]>): void {
+        this._listeners[type]?.delete(listener);
+    }
+
+    /**
+     * Whether an event has any listeners, to skip preparing events nobody listens to.
+     */
+    has(type: keyof EventMap): boolean {
+        return (this._listeners[type]?.size ?? 0) > 0;
+    }
+
+    emit<K extends keyof EventMap>(type: K, event: EventMap[K]): void {
+        // Copied, so that listeners can remove themselves while the event is dispatched.
+        for (const listener of [...this._listeners[type] ?? []])
+            listener(event);
+    }
+
+    clear(): void {
+        this._listeners = {};
+    }
+}
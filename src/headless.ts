@@ -0,0 +1,36 @@
+import { resolveOptions, type ASCIIGroundOptions } from './options';
+import type { CellBuffer } from './rendering/cell-buffer';
+import { FrameGenerator } from './rendering/frame-generator';
+
+/**
+ * Compute a single frame of a pattern on a grid of the given size, without a canvas.
+ * `time` is in milliseconds since the start of the animation, like the timeline of
+ * a running ASCIIGround instance. Stateful patterns are simulated up to that time.
+ */
+export function renderFrame(options: ASCIIGroundOptions, time: number, cols: number, rows: number): CellBuffer {
+    const generator = new FrameGenerator(resolveOptions(options), cols, rows);
+    const animationTime = (time / 1000) * options.speed;
+
+    generator.seek(animationTime);
+    return generator.compute(animationTime);
+}
+
+/**
+ * Compute a single frame as a grid of characters, one array per row. Empty cells are spaces.
+ */
+export function renderFrameToGrid(options: ASCIIGroundOptions, time: number, cols: number, rows: number): string[][] {
+    const frame = renderFrame(options, time, cols, rows);
+
+    return Array.from({ length: frame.rows }, (_, row) => frame.chars
+        .slice(row * frame.cols, (row + 1) * frame.cols)
+        .map((char) => char || ' '));
+}
+
+/**
+ * Compute a single frame as text, with one line per row.
+ */
+export function renderFrameToString(options: ASCIIGroundOptions, time: number, cols: number, rows: number): string {
+    return renderFrameToGrid(options, time, cols, rows)
+        .map((row) => row.join(''))
+        .join('\n');
+}
@@ -0,0 +1,254 @@
+import type { NoiseFunction } from './patterns/registry';
+
+export type InteractionEffect = 'ripple' | 'repel' | 'spotlight';
+
+export interface InteractionOptions {
+    /**
+     * Effect applied around the pointer:
+     * `ripple` spreads a ring from every click or tap,
+     * `repel` pushes the pattern away from the pointer,
+     * `spotlight` raises the pattern value near the pointer.
+     */
+    effect: InteractionEffect
+    /** Radius of the effect in grid cells. Ripples fade out once they reach it. */
+    radius?: number
+    /** Strength multiplier of the effect. */
+    strength?: number
+    /** Speed at which ripples spread, in grid cells per second. */
+    rippleSpeed?: number
+}
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+interface Ripple extends Point {
+    start: number;
+}
+
+/**
+ * Smooth falloff from 1 at the center to 0 at the given radius.
+ */
+function falloff(distance: number, radius: number): number {
+    const t = Math.max(0, 1 - distance / radius);
+    return t * t * (3 - 2 * t);
+}
+
+/**
+ * Pointer input in canvas pixel coordinates. `leave` means the pointer is gone.
+ */
+export interface PointerInput {
+    type: 'move' | 'down' | 'leave'
+    x: number
+    y: number
+}
+
+/**
+ * Translates window pointer events into canvas-space pointer input.
+ *
+ * Listens on the window rather than on the canvas, so it also works for
+ * canvases that do not receive pointer events themselves.
+ */
+export class PointerTracker {
+    private _canvas: HTMLCanvasElement;
+    private _target: Window;
+    private _onInput: (input: PointerInput) => void;
+    private _attached: boolean = false;
+    private _getSize: () => { width: number; height: number };
+
+    /**
+     * @param getSize Returns the canvas size in pixels. Needed once control of the canvas
+     * has been transferred offscreen, as the element no longer reflects it.
+     */
+    constructor(
+        canvas: HTMLCanvasElement,
+        onInput: (input: PointerInput) => void,
+        target: Window = window,
+        getSize: () => { width: number; height: number } = () => canvas
+    ) {
+        this._canvas = canvas;
+        this._onInput = onInput;
+        this._target = target;
+        this._getSize = getSize;
+    }
+
+    private toInput(type: PointerInput['type'], event: PointerEvent): PointerInput {
+        const rect = this._canvas.getBoundingClientRect();
+        const { width, height } = this._getSize();
+        const scaleX = rect.width ? width / rect.width : 1;
+        const scaleY = rect.height ? height / rect.height : 1;
+
+        return {
+            type,
+            x: (event.clientX - rect.left) * scaleX,
+            y: (event.clientY - rect.top) * scaleY,
+        };
+    }
+
+    private handlePointerMove = (event: PointerEvent): void => {
+        this._onInput(this.toInput('move', event));
+    };
+
+    private handlePointerDown = (event: PointerEvent): void => {
+        this._onInput(this.toInput('down', event));
+    };
+
+    private handlePointerUp = (event: PointerEvent): void => {
+        // Touch pointers stop existing once lifted.
+        if (event.pointerType === 'touch')
+            this._onInput(this.toInput('leave', event));
+    };
+
+    private handlePointerOut = (event: PointerEvent): void => {
+        if (event.relatedTarget === null)
+            this._onInput(this.toInput('leave', event));
+    };
+
+    attach(): void {
+        if (this._attached)
+            return;
+
+        this._target.addEventListener('pointermove', this.handlePointerMove);
+        this._target.addEventListener('pointerdown', this.handlePointerDown);
+        this._target.addEventListener('pointerup', this.handlePointerUp);
+        this._target.addEventListener('pointercancel', this.handlePointerUp);
+        this._target.addEventListener('pointerout', this.handlePointerOut);
+        this._attached = true;
+    }
+
+    detach(): void {
+        if (!this._attached)
+            return;
+
+        this._target.removeEventListener('pointermove', this.handlePointerMove);
+        this._target.removeEventListener('pointerdown', this.handlePointerDown);
+        this._target.removeEventListener('pointerup', this.handlePointerUp);
+        this._target.removeEventListener('pointercancel', this.handlePointerUp);
+        this._target.removeEventListener('pointerout', this.handlePointerOut);
+        this._attached = false;
+    }
+}
+
+/**
+ * Keeps track of pointer input and distorts noise values around it.
+ */
+export class PointerField {
+    private _options: Required<InteractionOptions>;
+    private _pointer: Point | null = null;
+    private _ripples: Ripple[] = [];
+    private _cellWidth: number = 1;
+    private _cellHeight: number = 1;
+
+    constructor(options: InteractionOptions) {
+        this._options = PointerField.resolveOptions(options);
+    }
+
+    private static resolveOptions(options: InteractionOptions): Required<InteractionOptions> {
+        return {
+            effect: options.effect,
+            radius: options.radius ?? 8,
+            strength: options.strength ?? 1,
+            rippleSpeed: options.rippleSpeed ?? 15,
+        };
+    }
+
+    get pointer(): Readonly<Point> | null {
+        return this._pointer;
+    }
+
+    get rippleCount(): number {
+        return this._ripples.length;
+    }
+
+    input({ type, x, y }: PointerInput): void {
+        if (type === 'leave') {
+            this._pointer = null;
+            return;
+        }
+
+        this._pointer = { x, y };
+
+        if (type === 'down' && this._options.effect === 'ripple')
+            this._ripples.push({ x, y, start: performance.now() });
+    }
+
+    setOptions(options: InteractionOptions): void {
+        this._options = PointerField.resolveOptions(options);
+    }
+
+    /**
+     * Set the size of a grid cell in canvas pixels, used to map the pointer onto the grid.
+     */
+    setCellSize(width: number, height: number): void {
+        this._cellWidth = width || 1;
+        this._cellHeight = height || 1;
+    }
+
+    /**
+     * Wrap a noise function so that its values are distorted by the pointer at the given moment.
+     */
+    wrap(noise: NoiseFunction, now: number): NoiseFunction {
+        const { effect, radius, strength, rippleSpeed } = this._options;
+        const pointer = this._pointer && this.toCell(this._pointer);
+
+        switch (effect) {
+            case 'spotlight':
+                if (!pointer)
+                    return noise;
+
+                return (x, y, time, context) => {
+                    const distance = Math.hypot(x - pointer.x, y - pointer.y);
+                    return noise(x, y, time, context) + 2 * strength * falloff(distance, radius);
+                };
+            case 'repel':
+                if (!pointer)
+                    return noise;
+
+                return (x, y, time, context) => {
+                    const dx = x - pointer.x;
+                    const dy = y - pointer.y;
+                    const distance = Math.hypot(dx, dy);
+
+                    if (distance === 0 || distance >= radius)
+                        return noise(x, y, time, context);
+
+                    // Sample closer to the pointer, so that its surroundings appear pushed outwards.
+                    const push = Math.min(distance, strength * radius * falloff(distance, radius));
+                    return noise(x - (dx / distance) * push, y - (dy / distance) * push, time, context);
+                };
+            case 'ripple': {
+                const lifetime = (radius / rippleSpeed) * 1000;
+                this._ripples = this._ripples.filter((ripple) => now - ripple.start < lifetime);
+
+                if (this._ripples.length === 0)
+                    return noise;
+
+                const rings = this._ripples.map((ripple) => ({
+                    ...this.toCell(ripple),
+                    front: ((now - ripple.start) / 1000) * rippleSpeed,
+                }));
+
+                return (x, y, time, context) => {
+                    let value = noise(x, y, time, context);
+
+                    for (const ring of rings) {
+                        const offset = Math.abs(Math.hypot(x - ring.x, y - ring.y) - ring.front);
+
+                        if (offset < 2)
+                            value += 2 * strength * (1 - offset / 2) * (1 - ring.front / radius);
+                    }
+
+                    return value;
+                };
+            }
+        }
+    }
+
+    private toCell(point: Point): Point {
+        return {
+            x: point.x / this._cellWidth,
+            y: point.y / this._cellHeight,
+        };
+    }
+}
@@ -0,0 +1,257 @@
+import { ColorMixer } from './color';
+import { fitSource, sampleSource, type ImageFit, type ImageSource } from './patterns/image';
+import type { CellBuffer } from './rendering/cell-buffer';
+import { createScratchCanvas, type RenderingContext2D } from './rendering/glyph-atlas';
+
+/**
+ * What happens to the pattern inside the mask:
+ * `boost` raises the pattern value, or keeps glyphs of stateful patterns such as japan-rain in place,
+ * `invert` flips the pattern value, or clears glyphs of stateful patterns,
+ * `recolor` blends the glyphs into the mask color.
+ */
+export type MaskEffect = 'boost' | 'invert' | 'recolor';
+
+export interface TextMaskShape {
+    type: 'text'
+    /** Text to carve out, e.g. a company name. */
+    text: string
+    /** CSS font family. Defaults to `sans-serif`. */
+    fontFamily?: string
+    /** CSS font weight. Defaults to `bold`. */
+    fontWeight?: string | number
+}
+
+export interface PathMaskShape {
+    type: 'path'
+    /** SVG path data, i.e. the `d` attribute of a `<path>`. */
+    path: string
+    /** Width of the path's view box. */
+    width: number
+    /** Height of the path's view box. */
+    height: number
+}
+
+export interface ImageMaskShape {
+    type: 'image'
+    source: ImageSource
+    /** Channel that decides how much of a cell is covered. Defaults to `alpha`. */
+    channel?: 'alpha' | 'luminance'
+}
+
+export type MaskShape = TextMaskShape | PathMaskShape | ImageMaskShape;
+
+export interface MaskOptions {
+    shape: MaskShape
+    /** Effect applied inside the mask. Defaults to `boost`. */
+    effect?: MaskEffect
+    /** Strength of the effect, 0-1 for `invert` and `recolor`. Defaults to 1. */
+    strength?: number
+    /** Color blended in by `recolor`. Defaults to white. */
+    color?: string
+    /** How paths and images are fitted onto the grid. Text is always contained. Defaults to `contain`. */
+    fit?: ImageFit
+}
+
+/** Supersampling factor along each axis when rasterizing text and paths. */
+const SUPERSAMPLING = 4;
+
+/** Share of the grid that text is fitted into, leaving a margin around it. */
+const TEXT_SCALE = 0.9;
+
+function drawText(context: RenderingContext2D, shape: TextMaskShape, width: number, height: number): void {
+    const font = (size: number) => `${shape.fontWeight ?? 'bold'} ${size}px ${shape.fontFamily ?? 'sans-serif'}`;
+    context.font = font(100);
+
+    const metrics = context.measureText(shape.text);
+    const ascent = metrics.actualBoundingBoxAscent || 75;
+    const descent = metrics.actualBoundingBoxDescent || 25;
+
+    if (metrics.width === 0)
+        return;
+
+    const scale = TEXT_SCALE * Math.min(width / metrics.width, height / (ascent + descent));
+    context.font = font(100 * scale);
+    context.textAlign = 'center';
+    context.textBaseline = 'alphabetic';
+    context.fillText(shape.text, width / 2, height / 2 + ((ascent - descent) / 2) * scale);
+}
+
+function drawPath(
+    context: RenderingContext2D,
+    shape: PathMaskShape,
+    width: number,
+    height: number,
+    fit: ImageFit
+): void {
+    if (typeof Path2D === 'undefined')
+        throw new Error('Path masks need Path2D support.');
+
+    const { sx, sy, sw, sh, dx, dy, dw, dh } = fitSource(shape.width, shape.height, width, height, fit);
+    context.translate(dx, dy);
+    context.scale(dw / sw, dh / sh);
+    context.translate(-sx, -sy);
+    context.fill(new Path2D(shape.path));
+}
+
+/**
+ * Draw text or a path at a multiple of the grid resolution and average the alpha beneath every cell.
+ */
+function rasterizeShape(
+    shape: TextMaskShape | PathMaskShape,
+    cols: number,
+    rows: number,
+    fit: ImageFit,
+    cellAspect: number
+): Float32Array {
+    const width = cols * SUPERSAMPLING;
+    const height = rows * SUPERSAMPLING;
+    const canvas = createScratchCanvas(width, height);
+    const context = canvas?.getContext('2d', { willReadFrequently: true }) as RenderingContext2D | null | undefined;
+
+    if (!context)
+        throw new Error('Text and path masks need a canvas to be rasterized.');
+
+    // Draw in a space where cells are square, so that shapes keep their proportions.
+    context.fillStyle = '#ffffff';
+    context.scale(1 / cellAspect, 1);
+
+    if (shape.type === 'text')
+        drawText(context, shape, width * cellAspect, height);
+    else
+        drawPath(context, shape, width * cellAspect, height, fit);
+
+    const { data } = context.getImageData(0, 0, width, height);
+    const coverage = new Float32Array(cols * rows);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const index = Math.floor(y / SUPERSAMPLING) * cols + Math.floor(x / SUPERSAMPLING);
+            coverage[index] += data[(y * width + x) * 4 + 3] / 255;
+        }
+    }
+
+    return coverage.map((sum) => sum / (SUPERSAMPLING * SUPERSAMPLING));
+}
+
+function sampleShape(
+    shape: ImageMaskShape,
+    cols: number,
+    rows: number,
+    fit: ImageFit,
+    cellAspect: number
+): Float32Array {
+    const samples = sampleSource(shape.source, cols, rows, fit, cellAspect, { canvas: null, context: null });
+    const coverage = new Float32Array(cols * rows);
+
+    for (let index = 0; index < coverage.length; index++) {
+        const offset = index * 4;
+        const alpha = samples[offset + 3] / 255;
+
+        coverage[index] = shape.channel === 'luminance'
+            ? alpha * (0.2126 * samples[offset] + 0.7152 * samples[offset + 1] + 0.0722 * samples[offset + 2]) / 255
+            : alpha;
+    }
+
+    return coverage;
+}
+
+/**
+ * A shape rasterized onto the character grid, as the share of every cell it covers,
+ * along with the effect it has on the pattern beneath it.
+ */
+export class Mask {
+    private _options: MaskOptions;
+    private _coverage: Float32Array;
+    private _color: string;
+    private _colors = new ColorMixer();
+    private _heldChars: string[];
+    private _heldColors: string[];
+
+    constructor(options: MaskOptions, cols: number, rows: number, cellAspect: number = 1) {
+        const { shape, fit = 'contain' } = options;
+        this._options = options;
+        this._color = options.color ?? '#ffffff';
+        this._heldChars = new Array<string>(cols * rows).fill('');
+        this._heldColors = new Array<string>(cols * rows).fill('');
+
+        this._coverage = shape.type === 'image'
+            ? sampleShape(shape, cols, rows, fit, cellAspect)
+            : rasterizeShape(shape, cols, rows, fit, cellAspect);
+    }
+
+    /**
+     * Share of every cell covered by the shape, 0-1, row by row.
+     */
+    get coverage(): Float32Array {
+        return this._coverage;
+    }
+
+    private get strength(): number {
+        return this._options.strength ?? 1;
+    }
+
+    /**
+     * Adjust the normalized (0-1) value of a noise pattern at the given cell index.
+     */
+    adjustValue(value: number, index: number): number {
+        const coverage = this._coverage[index];
+
+        if (!coverage)
+            return value;
+
+        switch (this._options.effect ?? 'boost') {
+            case 'boost':
+                return value + this.strength * coverage;
+            case 'invert':
+                return value + (1 - 2 * value) * Math.min(1, this.strength * coverage);
+            case 'recolor':
+                return value;
+        }
+    }
+
+    /**
+     * Adjust the color of a glyph at the given cell index.
+     */
+    adjustColor(color: string, index: number): string {
+        const coverage = this._coverage[index];
+
+        if (!coverage || this._options.effect !== 'recolor')
+            return color;
+
+        return this._colors.mix(color, this._color, Math.min(1, this.strength * coverage));
+    }
+
+    /**
+     * Apply the mask to a frame drawn by a stateful pattern, which has no values to adjust.
+     */
+    applyToFrame(frame: CellBuffer): void {
+        const { chars, colors } = frame;
+        const effect = this._options.effect ?? 'boost';
+
+        for (let index = 0; index < chars.length; index++) {
+            const coverage = this._coverage[index];
+
+            if (!coverage)
+                continue;
+
+            const inside = Math.min(1, this.strength * coverage) >= 0.5;
+
+            if (effect === 'recolor') {
+                if (chars[index] !== '')
+                    colors[index] = this.adjustColor(colors[index], index);
+            } else if (effect === 'invert') {
+                if (inside)
+                    chars[index] = '';
+            } else if (inside) {
+                // Keep the last glyph drawn inside the mask, so that the shape fills up as the pattern passes.
+                if (chars[index] !== '') {
+                    this._heldChars[index] = chars[index];
+                    this._heldColors[index] = colors[index];
+                } else if (this._heldChars[index] !== '') {
+                    chars[index] = this._heldChars[index];
+                    colors[index] = this._heldColors[index];
+                }
+            }
+        }
+    }
+}
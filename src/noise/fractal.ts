@@ -0,0 +1,74 @@
+import type { PerlinNoise } from './perlin';
+
+export type NoiseType = 'perlin' | 'simplex';
+
+export interface FractalNoiseSettings {
+    /** Noise function summed up by each octave. */
+    noiseType: NoiseType
+    /** Number of octaves. Fractional counts fade the last octave in. */
+    octaves: number
+    /** Factor the frequency grows by from one octave to the next. */
+    lacunarity: number
+    /** Factor the amplitude shrinks by from one octave to the next. */
+    gain: number
+    /** Distance the coordinates are displaced by a second noise field. Zero disables domain warping. */
+    warp: number
+}
+
+/** Octaves beyond this add detail finer than a character cell at any sensible scale. */
+const MAX_OCTAVES = 8;
+
+/** Shift of each octave, so that the lattice points of all octaves do not line up at the origin. */
+const OCTAVE_OFFSET = 17.31;
+
+/** Offsets of the two noise fields that displace the coordinates when warping. */
+const WARP_OFFSETS = [[5.2, 1.3], [1.7, 9.2]] as const;
+
+/**
+ * Fractal Brownian motion: octaves of noise at rising frequencies and falling amplitudes,
+ * normalized back into the range of -1 to 1.
+ */
+export function fbm(noise: PerlinNoise, x: number, y: number, z: number, settings: FractalNoiseSettings): number {
+    const { noiseType, lacunarity, gain } = settings;
+    const octaves = Math.max(1, Math.min(MAX_OCTAVES, settings.octaves));
+    let sum = 0;
+    let total = 0;
+    let amplitude = 1;
+    let frequency = 1;
+
+    for (let octave = 0; octave < octaves; octave++) {
+        // Weighting the last octave by the fractional part makes tweened octave counts change smoothly.
+        const weight = amplitude * Math.min(1, octaves - octave);
+        const offset = octave * OCTAVE_OFFSET;
+        const sx = x * frequency + offset;
+        const sy = y * frequency + offset;
+        const sz = z * frequency;
+
+        sum += weight * (noiseType === 'simplex' ? noise.simplex3(sx, sy, sz) : noise.noise3(sx, sy, sz));
+        total += weight;
+        amplitude *= gain;
+        frequency *= lacunarity;
+    }
+
+    return total > 0 ? sum / total : 0;
+}
+
+/**
+ * Fractal noise whose coordinates are first displaced by two other fractal noise fields when `warp` is set,
+ * which turns blobs into swirls and folds.
+ */
+export function fractalNoise(
+    noise: PerlinNoise,
+    x: number,
+    y: number,
+    z: number,
+    settings: FractalNoiseSettings
+): number {
+    if (settings.warp === 0)
+        return fbm(noise, x, y, z, settings);
+
+    const [[ax, ay], [bx, by]] = WARP_OFFSETS;
+    const warpX = fbm(noise, x + ax, y + ay, z, settings);
+    const warpY = fbm(noise, x + bx, y + by, z, settings);
+    return fbm(noise, x + settings.warp * warpX, y + settings.warp * warpY, z, settings);
+}
@@ -0,0 +1,183 @@
+import { createRandom } from './random';
+
+/** Skewing and unskewing factors of 3D simplex noise. */
+const F3 = 1 / 3;
+const G3 = 1 / 6;
+
+/**
+ * Offsets of the second and third corner of the six tetrahedra that a skewed cube is split into.
+ */
+const TETRAHEDRA = [
+    [1, 0, 0, 1, 1, 0],
+    [1, 0, 0, 1, 0, 1],
+    [0, 0, 1, 1, 0, 1],
+    [0, 0, 1, 0, 1, 1],
+    [0, 1, 0, 0, 1, 1],
+    [0, 1, 0, 1, 1, 0]
+] as const;
+
+/**
+ * Perlin and simplex noise over a seeded permutation table. Every function returns values in the range of -1 to 1.
+ */
+export class PerlinNoise {
+    private permutation: number[];
+
+    constructor(seed: number = 0) {
+        this.permutation = this.generatePermutation(seed);
+    }
+
+    private generatePermutation(seed: number): number[] {
+        const p = [];
+
+        for (let i = 0; i < 256; i++)
+            p[i] = i;
+
+        const random = createRandom(seed);
+
+        for (let i = 255; i > 0; i--) {
+            const j = Math.floor(random() * (i + 1));
+            [p[i], p[j]] = [p[j], p[i]];
+        }
+
+        return [...p, ...p];
+    }
+
+    private fade(t: number): number {
+        return t * t * t * (t * (t * 6 - 15) + 10);
+    }
+
+    private lerp(a: number, b: number, t: number): number {
+        return a + t * (b - a);
+    }
+
+    private grad(hash: number, x: number, y: number): number {
+        const h = hash & 3;
+        const u = h < 2 ? x : y;
+        const v = h < 2 ? y : x;
+        return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
+    }
+
+    /**
+     * Gradient towards one of the twelve edges of a cube, as in Ken Perlin's improved noise.
+     */
+    private grad3(hash: number, x: number, y: number, z: number): number {
+        const h = hash & 15;
+        const u = h < 8 ? x : y;
+        const v = h < 4 ? y : h === 12 || h === 14 ? x : z;
+        return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
+    }
+
+    /**
+     * 2D Perlin noise.
+     */
+    public noise(x: number, y: number): number {
+        const X = Math.floor(x) & 255;
+        const Y = Math.floor(y) & 255;
+        x -= Math.floor(x);
+        y -= Math.floor(y);
+        const u = this.fade(x);
+        const v = this.fade(y);
+        const a = this.permutation[X] + Y;
+        const aa = this.permutation[a];
+        const ab = this.permutation[a + 1];
+        const b = this.permutation[X + 1] + Y;
+        const ba = this.permutation[b];
+        const bb = this.permutation[b + 1];
+
+        return this.lerp(
+            this.lerp(
+                this.grad(this.permutation[aa], x, y),
+                this.grad(this.permutation[ba], x - 1, y),
+                u
+            ),
+            this.lerp(
+                this.grad(this.permutation[ab], x, y - 1),
+                this.grad(this.permutation[bb], x - 1, y - 1),
+                u
+            ),
+            v
+        );
+    }
+
+    /**
+     * 3D Perlin noise, e.g. with time as the third axis so that a 2D pattern changes shape over time.
+     */
+    public noise3(x: number, y: number, z: number): number {
+        const p = this.permutation;
+        const X = Math.floor(x) & 255;
+        const Y = Math.floor(y) & 255;
+        const Z = Math.floor(z) & 255;
+        x -= Math.floor(x);
+        y -= Math.floor(y);
+        z -= Math.floor(z);
+        const u = this.fade(x);
+        const v = this.fade(y);
+        const w = this.fade(z);
+        const a = p[X] + Y;
+        const aa = p[a] + Z;
+        const ab = p[a + 1] + Z;
+        const b = p[X + 1] + Y;
+        const ba = p[b] + Z;
+        const bb = p[b + 1] + Z;
+
+        return this.lerp(
+            this.lerp(
+                this.lerp(this.grad3(p[aa], x, y, z), this.grad3(p[ba], x - 1, y, z), u),
+                this.lerp(this.grad3(p[ab], x, y - 1, z), this.grad3(p[bb], x - 1, y - 1, z), u),
+                v
+            ),
+            this.lerp(
+                this.lerp(this.grad3(p[aa + 1], x, y, z - 1), this.grad3(p[ba + 1], x - 1, y, z - 1), u),
+                this.lerp(this.grad3(p[ab + 1], x, y - 1, z - 1), this.grad3(p[bb + 1], x - 1, y - 1, z - 1), u),
+                v
+            ),
+            w
+        );
+    }
+
+    /**
+     * 3D simplex noise, which has fewer directional artifacts than Perlin noise.
+     */
+    public simplex3(x: number, y: number, z: number): number {
+        const p = this.permutation;
+
+        // Find the simplex cell the point is in, by skewing space onto a grid of cubes.
+        const skew = (x + y + z) * F3;
+        const i = Math.floor(x + skew);
+        const j = Math.floor(y + skew);
+        const k = Math.floor(z + skew);
+        const unskew = (i + j + k) * G3;
+        const x0 = x - (i - unskew);
+        const y0 = y - (j - unskew);
+        const z0 = z - (k - unskew);
+
+        // The ordering of the offsets picks the tetrahedron that contains the point.
+        const tetrahedron = x0 >= y0
+            ? (y0 >= z0 ? 0 : x0 >= z0 ? 1 : 2)
+            : (y0 < z0 ? 3 : x0 < z0 ? 4 : 5);
+
+        const [i1, j1, k1, i2, j2, k2] = TETRAHEDRA[tetrahedron];
+
+        const ii = i & 255;
+        const jj = j & 255;
+        const kk = k & 255;
+
+        const corner = (dx: number, dy: number, dz: number, ci: number, cj: number, ck: number): number => {
+            const t = 0.6 - dx * dx - dy * dy - dz * dz;
+
+            if (t < 0)
+                return 0;
+
+            const hash = p[ii + ci + p[jj + cj + p[kk + ck]]];
+            return t * t * t * t * this.grad3(hash, dx, dy, dz);
+        };
+
+        const n0 = corner(x0, y0, z0, 0, 0, 0);
+        const n1 = corner(x0 - i1 + G3, y0 - j1 + G3, z0 - k1 + G3, i1, j1, k1);
+        const n2 = corner(x0 - i2 + 2 * G3, y0 - j2 + 2 * G3, z0 - k2 + 2 * G3, i2, j2, k2);
+        const n3 = corner(x0 - 1 + 3 * G3, y0 - 1 + 3 * G3, z0 - 1 + 3 * G3, 1, 1, 1);
+
+        // Scales the sum of the corner contributions into the range of -1 to 1.
+        return 32 * (n0 + n1 + n2 + n3);
+    }
+}
@@ -0,0 +1,21 @@
+/**
+ * A source of uniformly distributed numbers in the range of 0 (inclusive) to 1 (exclusive),
+ * with the same contract as `Math.random`.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32).
+ * The same seed always yields the same sequence.
+ */
+export function createRandom(seed: number): RandomSource {
+    let state = seed >>> 0;
+
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
@@ -0,0 +1,255 @@
+import type { InteractionOptions } from './interaction';
+import type { MaskOptions } from './mask';
+import type { NoiseType } from './noise/fractal';
+import type { Palette } from './palette';
+import type { ImageOptions } from './patterns/image';
+import type { JapanRainOptions } from './patterns/japan-rain';
+import type { PatternName } from './patterns/registry';
+import type { BlendMode } from './rendering/compositor';
+import type { AdaptiveQualityOptions } from './rendering/frame-pacer';
+import type { ValidationMode } from './validation';
+import type { ReducedMotion } from './visibility';
+
+/**
+ * Options accepted by ASCIIGround. Custom patterns can declare their own
+ * parameters by augmenting this interface:
+ *
+ * ```typescript
+ * declare module 'asciiground' {
+ *     interface ASCIIGroundOptions {
+ *         twist?: number
+ *     }
+ * }
+ * ```
+ */
+export interface ASCIIGroundOptions {
+    /** Animation pattern type. */
+    pattern: PatternName
+    /** ASCII characters to use for rendering (from lightest to darkest). */
+    characters: string[]
+    /** Animation speed multiplier. */
+    speed: number
+    /** Font size in pixels. */
+    fontSize?: number
+    /** Font family. */
+    fontFamily?: string
+    /** Text color. */
+    color?: string
+    /** Per-cell colors, taking precedence over `color`. */
+    palette?: Palette
+    /** Speed a palette over the pattern value cycles through the pattern at, in palette lengths per unit of time. */
+    paletteCycle?: number
+    /** Background color. */
+    backgroundColor?: string
+    /**
+     * Direction of animation, if supported by the pattern. Defaults to `down`, except for fire and perlin,
+     * which move `up`.
+     */
+    direction?: 'left' | 'right' | 'up' | 'down'
+    /** Horizontal wave amplitude (for wave pattern). */
+    amplitudeX?: number
+    /** Vertical wave amplitude (for wave pattern). */
+    amplitudeY?: number
+    /** Frequency of wave pattern. */
+    frequency?: number
+    /** Perlin noise scale factor. */
+    noiseScale?: number
+    /** Noise function of the perlin pattern. Defaults to `perlin`. */
+    noiseType?: NoiseType
+    /** Number of noise layers summed up at rising detail (for perlin pattern). Defaults to 1. */
+    octaves?: number
+    /** Factor the detail grows by from one octave to the next. Defaults to 2. */
+    lacunarity?: number
+    /** Factor the strength shrinks by from one octave to the next. Defaults to 0.5. */
+    gain?: number
+    /** Strength of domain warping, which displaces the noise by more noise (for perlin pattern). Defaults to 0. */
+    warp?: number
+    /**
+     * Speed the perlin pattern moves in `direction` at while it changes shape, in noise units per unit of time.
+     * Defaults to 1, 0 changes the shape in place.
+     */
+    drift?: number
+    /** Rain density (for rain/japan-rain patterns), 0-1. */
+    rainDensity?: number
+    /** Glyphs, trails, flicker and colors of the japan-rain pattern. */
+    japanRain?: JapanRainOptions
+    /**
+     * Rain direction (for rain pattern).
+     * @deprecated Use `wind`, which takes any angle.
+     */
+    rainDirection?: 'vertical' | 'diagonal-left' | 'diagonal-right'
+    /**
+     * Angle the rain falls at, in degrees from vertical (for rain pattern). Positive angles blow it to the right.
+     * Defaults to 0, or to the angle of `rainDirection`.
+     */
+    wind?: number
+    /** Characters drops splash into where they land, shown one after another (for rain pattern). */
+    rainSplash?: string[]
+    /** Row drops land on, counted up from the bottom row (for rain pattern). Defaults to 0. */
+    rainFloor?: number
+    /** Heat of the flames at their source (for fire pattern), 0-1. Defaults to 1. */
+    fireIntensity?: number
+    /** How quickly flames cool down as they rise (for fire pattern), 0-1. Defaults to 0.5. */
+    fireCooling?: number
+    /** Stars per grid cell (for starfield pattern). Defaults to 0.05. */
+    starDensity?: number
+    /** Flakes per grid cell (for snow pattern). Defaults to 0.03. */
+    snowDensity?: number
+    /**
+     * Speed flakes fall at, in cells per unit of time (for snow pattern). Negative values make them rise.
+     * Defaults to 6.
+     */
+    snowGravity?: number
+    /** Speed the wind blows flakes sideways at, in cells per unit of time (for snow pattern). Defaults to 0. */
+    snowWind?: number
+    /** Birth and survival rule of the life pattern in B/S notation. Defaults to `B3/S23`, Conway's Game of Life. */
+    lifeRule?: string
+    /** Share of cells alive when the life pattern is seeded, 0-1. Defaults to 0.3. */
+    lifeDensity?: number
+    /** Whether the life pattern wraps around the grid edges. Defaults to true. */
+    lifeWrap?: boolean
+    /** What picks the character of a living cell: its `age` or its number of `neighbors`. Defaults to `age`. */
+    lifeMapping?: 'age' | 'neighbors'
+    /** Seed for noise and randomness. When set, the same options always produce the same frames. */
+    seed?: number
+    /** Blit characters from a pre-rasterized glyph atlas instead of drawing text for every cell. */
+    glyphAtlas?: boolean
+    /** Only redraw cells whose character or color changed since the previous frame. */
+    dirtyCells?: boolean
+    /** Highest number of frames rendered per second. Every animation frame of the display is rendered when not set. */
+    maxFps?: number
+    /** Lower the frame rate or enlarge cells while frames take longer to render than their budget. */
+    adaptiveQuality?: boolean | AdaptiveQualityOptions
+    /** How to honor the user's `prefers-reduced-motion` setting. Defaults to `static`. */
+    reducedMotion?: ReducedMotion
+    /** Suspend the animation while the page is hidden or the canvas is scrolled out of view. Defaults to true. */
+    pauseWhenHidden?: boolean
+    /** Pointer interaction applied to noise-based patterns. Disabled when not set. */
+    interaction?: InteractionOptions
+    /** Source converted by the image pattern. */
+    image?: ImageOptions
+    /** Text or shape that boosts, inverts or recolors the pattern beneath it. */
+    mask?: MaskOptions
+    /** Patterns stacked on top of this one, from bottom to top. */
+    layers?: LayerOptions[]
+    /**
+     * Whether invalid options throw an error listing every problem, or are logged and corrected,
+     * e.g. to keep a production page running. Defaults to `throw`.
+     */
+    validation?: ValidationMode
+}
+
+/**
+ * Options shared by all layers, since they are drawn onto the same grid.
+ */
+type GridOption =
+    | 'fontSize'
+    | 'fontFamily'
+    | 'backgroundColor'
+    | 'glyphAtlas'
+    | 'dirtyCells'
+    | 'maxFps'
+    | 'adaptiveQuality'
+    | 'reducedMotion'
+    | 'pauseWhenHidden'
+    | 'interaction'
+    | 'layers'
+    | 'validation';
+
+/**
+ * Options of a pattern layer. Options that are not set are inherited from the
+ * instance, except for its `mask`. Pointer interaction applies to every layer.
+ */
+export interface LayerOptions extends Partial<Omit<ASCIIGroundOptions, GridOption>> {
+    pattern: PatternName
+    /** Weight of the layer when it is blended, 0-1. Defaults to 1. */
+    opacity?: number
+    /** How the layer is combined with the layers beneath it. Defaults to `max`. */
+    blend?: BlendMode
+}
+
+/**
+ * Options that always have a value once defaults are applied.
+ */
+type DefaultedOption =
+    | 'fontSize'
+    | 'fontFamily'
+    | 'color'
+    | 'backgroundColor'
+    | 'amplitudeX'
+    | 'amplitudeY'
+    | 'frequency'
+    | 'noiseScale'
+    | 'noiseType'
+    | 'octaves'
+    | 'lacunarity'
+    | 'gain'
+    | 'warp'
+    | 'drift'
+    | 'rainDensity'
+    | 'rainFloor'
+    | 'fireIntensity'
+    | 'fireCooling'
+    | 'starDensity'
+    | 'snowDensity'
+    | 'snowGravity'
+    | 'snowWind'
+    | 'lifeRule'
+    | 'lifeDensity'
+    | 'lifeWrap'
+    | 'lifeMapping';
+
+/**
+ * Options with defaults applied, as seen by patterns.
+ */
+export type ResolvedOptions = ASCIIGroundOptions & Required<Pick<ASCIIGroundOptions, DefaultedOption>>;
+
+/** Wind angles of the deprecated `rainDirection` values. */
+const RAIN_DIRECTION_ANGLES: Record<NonNullable<ASCIIGroundOptions['rainDirection']>, number> = {
+    'vertical': 0,
+    'diagonal-left': -45,
+    'diagonal-right': 45,
+};
+
+/**
+ * Angle the rain falls at: `wind` when it is set, or else the angle of the deprecated `rainDirection`.
+ * Not resolved along with the other defaults, so that later changes of `rainDirection` still apply.
+ */
+export function resolveWind(options: ASCIIGroundOptions): number {
+    return options.wind ?? RAIN_DIRECTION_ANGLES[options.rainDirection ?? 'vertical'];
+}
+
+/**
+ * Apply default values to the optional fields of the given options.
+ */
+export function resolveOptions(options: ASCIIGroundOptions): ResolvedOptions {
+    return {
+        ...options,
+        fontSize: options.fontSize || 12,
+        fontFamily: options.fontFamily || 'monospace',
+        color: options.color || '#00ff00',
+        backgroundColor: options.backgroundColor || '#000000',
+        amplitudeX: options.amplitudeX ?? 1,
+        amplitudeY: options.amplitudeY ?? 1,
+        frequency: options.frequency ?? 1,
+        noiseScale: options.noiseScale ?? 0.1,
+        noiseType: options.noiseType ?? 'perlin',
+        octaves: options.octaves ?? 1,
+        lacunarity: options.lacunarity ?? 2,
+        gain: options.gain ?? 0.5,
+        warp: options.warp ?? 0,
+        drift: options.drift ?? 1,
+        rainDensity: options.rainDensity ?? 0.9,
+        rainFloor: options.rainFloor ?? 0,
+        fireIntensity: options.fireIntensity ?? 1,
+        fireCooling: options.fireCooling ?? 0.5,
+        starDensity: options.starDensity ?? 0.05,
+        snowDensity: options.snowDensity ?? 0.03,
+        snowGravity: options.snowGravity ?? 6,
+        snowWind: options.snowWind ?? 0,
+        lifeRule: options.lifeRule ?? 'B3/S23',
+        lifeDensity: options.lifeDensity ?? 0.3,
+        lifeWrap: options.lifeWrap ?? true,
+        lifeMapping: options.lifeMapping ?? 'age',
+    };
+}
@@ -0,0 +1,110 @@
+import { formatColor, mixColors, parseColor } from './color';
+
+/**
+ * What a palette maps onto its colors: the normalized pattern value, or the cell's position.
+ */
+export type PaletteSource = 'value' | 'row' | 'column';
+
+export interface GradientStop {
+    /** Position of the stop, 0-1. */
+    offset: number
+    /** Hex or `rgb()`/`rgba()` color. */
+    color: string
+}
+
+/**
+ * Picks one of the colors, evenly splitting the 0-1 range between them.
+ */
+export interface DiscretePalette {
+    type: 'discrete'
+    colors: string[]
+    source?: PaletteSource
+}
+
+/**
+ * Interpolates linearly between color stops. Plain colors are spread evenly.
+ */
+export interface GradientPalette {
+    type: 'gradient'
+    stops: Array<string | GradientStop>
+    source?: PaletteSource
+}
+
+/**
+ * Maps a cell to a color. `value` is the normalized (0-1) pattern value.
+ */
+export type ColorMap = (value: number, col: number, row: number, cols: number, rows: number) => string;
+
+/**
+ * Per-cell coloring. An array of colors is a shorthand for a discrete palette over the pattern value.
+ */
+export type Palette = string[] | DiscretePalette | GradientPalette | ColorMap;
+
+const GRADIENT_RESOLUTION = 256;
+
+function sourceValue(source: PaletteSource): (...cell: Parameters<ColorMap>) => number {
+    switch (source) {
+        case 'value':
+            return (value) => value;
+        case 'row':
+            return (_value, _col, row, _cols, rows) => (rows > 1 ? row / (rows - 1) : 0);
+        case 'column':
+            return (_value, col, _row, cols) => (cols > 1 ? col / (cols - 1) : 0);
+    }
+}
+
+function clampUnit(value: number): number {
+    return value <= 0 ? 0 : value >= 1 ? 1 : value || 0;
+}
+
+function createGradientTable(stops: GradientPalette['stops']): string[] {
+    if (stops.length === 0)
+        throw new Error('Gradient palette needs at least one color stop.');
+
+    const parsed = stops
+        .map((stop, index) => typeof stop === 'string'
+            ? { offset: stops.length > 1 ? index / (stops.length - 1) : 0, color: parseColor(stop) }
+            : { offset: stop.offset, color: parseColor(stop.color) })
+        .sort((a, b) => a.offset - b.offset);
+
+    return Array.from({ length: GRADIENT_RESOLUTION }, (_, index) => {
+        const t = index / (GRADIENT_RESOLUTION - 1);
+        const next = parsed.findIndex((stop) => stop.offset >= t);
+
+        if (next === -1)
+            return formatColor(parsed[parsed.length - 1].color);
+
+        if (next === 0)
+            return formatColor(parsed[0].color);
+
+        const from = parsed[next - 1];
+        const to = parsed[next];
+        const span = to.offset - from.offset;
+        return formatColor(mixColors(from.color, to.color, span > 0 ? (t - from.offset) / span : 1));
+    });
+}
+
+/**
+ * Compile a palette into a function that maps cells to colors.
+ */
+export function createColorMap(palette: Palette): ColorMap {
+    if (typeof palette === 'function')
+        return palette;
+
+    const { colors, source = 'value' } = Array.isArray(palette)
+        ? { colors: palette, source: 'value' as const }
+        : palette.type === 'discrete'
+            ? palette
+            : { colors: createGradientTable(palette.stops), source: palette.source };
+
+    if (colors.length === 0)
+        throw new Error('Palette needs at least one color.');
+
+    const read = sourceValue(source);
+    const last = colors.length - 1;
+
+    return (value, col, row, cols, rows) => {
+        const t = clampUnit(read(value, col, row, cols, rows));
+        return colors[Math.min(Math.floor(t * colors.length), last)];
+    };
+}
@@ -0,0 +1,116 @@
+import { createColorMap } from '../palette';
+import type { PatternContext, StatefulPattern } from './registry';
+import { FixedStepper } from './stepper';
+
+export interface FireState {
+    /** Cells along the edge the flames rise from. */
+    width: number;
+    /** Cells the flames can rise through, away from that edge. */
+    depth: number;
+    /** Heat of every cell, 0-1, row by row starting at the source edge. */
+    heat: Float32Array;
+    stepper: FixedStepper;
+}
+
+/** Steps per unit of animation time, i.e. per second at a `speed` of 1. Heat rises by one cell per step. */
+const STEPS_PER_TIME = 30;
+
+/** Share of the source heat that flickers from step to step. */
+const SOURCE_FLICKER = 0.15;
+
+/** Colors used without a `palette`, from embers to the white core of the flames. */
+const defaultColorMap = createColorMap({
+    type: 'gradient',
+    stops: ['#330000', '#a01c05', '#f05a0a', '#ffb21e', '#fff3b0'],
+});
+
+/**
+ * Size of the heat buffer: `direction` is the way the flames travel, away from the opposite edge.
+ */
+function fireSize({ options, cols, rows }: PatternContext): { width: number, depth: number } {
+    return options.direction === 'left' || options.direction === 'right'
+        ? { width: rows, depth: cols }
+        : { width: cols, depth: rows };
+}
+
+function feedSource({ heat, width }: FireState, { options, random }: PatternContext): void {
+    for (let u = 0; u < width; u++)
+        heat[u] = options.fireIntensity * (1 - SOURCE_FLICKER * random());
+}
+
+/**
+ * Let the heat rise by one cell, averaging the cells beneath and cooling it on the way.
+ */
+function step(state: FireState, context: PatternContext): void {
+    const { heat, width, depth } = state;
+    const { options, random } = context;
+    // The average loss per cell, so that flames reach about a quarter of the grid divided by the cooling.
+    const loss = (options.fireCooling * 4) / depth;
+
+    // From the far edge inwards, so that every cell still reads the previous step of the cells beneath it.
+    for (let v = depth - 1; v >= 1; v--) {
+        const below = (v - 1) * width;
+        const farBelow = Math.max(0, v - 2) * width;
+
+        for (let u = 0; u < width; u++) {
+            const left = heat[below + Math.max(0, u - 1)];
+            const right = heat[below + Math.min(width - 1, u + 1)];
+            const average = (left + heat[below + u] + right + heat[farBelow + u]) / 4;
+            heat[v * width + u] = Math.max(0, average - loss * 2 * random());
+        }
+    }
+
+    feedSource(state, context);
+}
+
+/**
+ * Grid cell of the given heat buffer cell.
+ */
+function toCell(u: number, v: number, { options, cols, rows }: PatternContext): [number, number] {
+    switch (options.direction ?? 'up') {
+        case 'down':  return [u, v];
+        case 'right': return [v, u];
+        case 'left':  return [cols - 1 - v, u];
+        default:      return [u, rows - 1 - v];
+    }
+}
+
+export const firePattern: StatefulPattern<FireState> = {
+    init(context) {
+        const { width, depth } = fireSize(context);
+        const state: FireState = {
+            width,
+            depth,
+            heat: new Float32Array(width * depth),
+            stepper: new FixedStepper(STEPS_PER_TIME),
+        };
+
+        feedSource(state, context);
+        return state;
+    },
+
+    update(state, context, animationTime) {
+        state.stepper.advance(animationTime, () => step(state, context));
+    },
+
+    render(state, surface, context) {
+        const { characters } = context.options;
+        const colorMap = context.colorMap ?? defaultColorMap;
+        const { heat, width } = state;
+        const levels = characters.length;
+
+        if (levels === 0)
+            return;
+
+        for (let index = 0; index < heat.length; index++) {
+            const value = Math.min(1, heat[index]);
+
+            if (value <= 0)
+                continue;
+
+            const [col, row] = toCell(index % width, Math.floor(index / width), context);
+            const char = characters[Math.min(Math.floor(value * levels), levels - 1)];
+            surface.drawChar(char, col, row, colorMap(value, col, row, context.cols, context.rows));
+        }
+    },
+};
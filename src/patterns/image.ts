@@ -0,0 +1,314 @@
+import { formatColor } from '../color';
+import { createScratchCanvas, type RenderingContext2D } from '../rendering/glyph-atlas';
+import type { PatternContext, StatefulPattern } from './registry';
+
+export type ImageSource =
+    | HTMLImageElement
+    | HTMLVideoElement
+    | HTMLCanvasElement
+    | ImageBitmap
+    | OffscreenCanvas
+    | ImageData;
+
+/**
+ * How the source is fitted onto the grid:
+ * `cover` fills the grid and crops the source,
+ * `contain` shows the whole source and leaves the rest of the grid empty,
+ * `stretch` fills the grid and distorts the source.
+ */
+export type ImageFit = 'cover' | 'contain' | 'stretch';
+
+export interface ImageOptions {
+    /** Image, video frame, bitmap or raw pixels to convert. Videos are sampled every frame. */
+    source: ImageSource
+    /** How the source is fitted onto the grid. Defaults to `cover`. */
+    fit?: ImageFit
+    /** Color every cell with the average color of the source beneath it, instead of `color` or `palette`. */
+    sourceColor?: boolean
+    /** Map dark areas onto the dense end of `characters`, e.g. for light backgrounds. */
+    invert?: boolean
+    /** Width of a grid cell divided by its height, to keep the source's proportions. Measured by default. */
+    cellAspect?: number
+}
+
+/**
+ * Part of the source shown on the grid, and the part of the grid it is shown on, in grid cells.
+ */
+export interface FitRegion {
+    sx: number;
+    sy: number;
+    sw: number;
+    sh: number;
+    dx: number;
+    dy: number;
+    dw: number;
+    dh: number;
+}
+
+/**
+ * Canvas kept between samples to scale sources down on.
+ */
+export interface SampleCanvas {
+    canvas: OffscreenCanvas | HTMLCanvasElement | null;
+    context: RenderingContext2D | null;
+}
+
+interface ImageState {
+    /** RGBA samples, four per grid cell. Cells with zero alpha are left empty. */
+    samples: Uint8ClampedArray;
+    source: ImageSource | null;
+    /** Playback position of a video source when it was last sampled. */
+    sampledAt: number;
+    scratch: SampleCanvas;
+}
+
+function isVideo(source: ImageSource): source is HTMLVideoElement {
+    return typeof HTMLVideoElement !== 'undefined' && source instanceof HTMLVideoElement;
+}
+
+function isImageData(source: ImageSource): source is ImageData {
+    return typeof ImageData !== 'undefined'
+        ? source instanceof ImageData
+        : 'data' in source && !('getContext' in source);
+}
+
+/**
+ * Intrinsic size of the source, or zero while it is still loading.
+ */
+export function getSourceSize(source: ImageSource): { width: number; height: number } {
+    if (typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement)
+        return { width: source.naturalWidth, height: source.naturalHeight };
+
+    if (isVideo(source))
+        return { width: source.videoWidth, height: source.videoHeight };
+
+    return { width: source.width, height: source.height };
+}
+
+/**
+ * Fit a source of the given size onto a grid of `cols` by `rows` cells.
+ */
+export function fitSource(
+    width: number,
+    height: number,
+    cols: number,
+    rows: number,
+    fit: ImageFit,
+    cellAspect: number = 1
+): FitRegion {
+    const region = { sx: 0, sy: 0, sw: width, sh: height, dx: 0, dy: 0, dw: cols, dh: rows };
+
+    if (fit === 'stretch' || width <= 0 || height <= 0)
+        return region;
+
+    // Compare proportions in a space where cells are square.
+    const gridWidth = cols * cellAspect;
+    const scale = fit === 'cover'
+        ? Math.max(gridWidth / width, rows / height)
+        : Math.min(gridWidth / width, rows / height);
+
+    if (fit === 'cover') {
+        region.sw = gridWidth / scale;
+        region.sh = rows / scale;
+        region.sx = (width - region.sw) / 2;
+        region.sy = (height - region.sh) / 2;
+    } else {
+        region.dw = (width * scale) / cellAspect;
+        region.dh = height * scale;
+        region.dx = (cols - region.dw) / 2;
+        region.dy = (rows - region.dh) / 2;
+    }
+
+    return region;
+}
+
+/** Maximum number of pixels averaged along each axis of a cell when sampling raw pixels. */
+const MAX_SAMPLES_PER_AXIS = 4;
+
+/**
+ * Average the pixels of raw image data beneath every cell of the fitted region.
+ */
+function sampleImageData(source: ImageData, region: FitRegion, cols: number, rows: number): Uint8ClampedArray {
+    const samples = new Uint8ClampedArray(cols * rows * 4);
+    const { sx, sy, sw, sh, dx, dy, dw, dh } = region;
+    const { data, width, height } = source;
+
+    const cellWidth = sw / dw;
+    const cellHeight = sh / dh;
+    const stepsX = Math.max(1, Math.min(MAX_SAMPLES_PER_AXIS, Math.round(cellWidth)));
+    const stepsY = Math.max(1, Math.min(MAX_SAMPLES_PER_AXIS, Math.round(cellHeight)));
+
+    for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+            // Only cells whose center lies on the source are filled.
+            if (col + 0.5 < dx || col + 0.5 >= dx + dw || row + 0.5 < dy || row + 0.5 >= dy + dh)
+                continue;
+
+            const left = sx + ((col - dx) / dw) * sw;
+            const top = sy + ((row - dy) / dh) * sh;
+            let r = 0, g = 0, b = 0, a = 0, count = 0;
+
+            for (let stepY = 0; stepY < stepsY; stepY++) {
+                const y = Math.floor(top + ((stepY + 0.5) / stepsY) * cellHeight);
+
+                if (y < 0 || y >= height)
+                    continue;
+
+                for (let stepX = 0; stepX < stepsX; stepX++) {
+                    const x = Math.floor(left + ((stepX + 0.5) / stepsX) * cellWidth);
+
+                    if (x < 0 || x >= width)
+                        continue;
+
+                    const index = (y * width + x) * 4;
+                    r += data[index];
+                    g += data[index + 1];
+                    b += data[index + 2];
+                    a += data[index + 3];
+                    count++;
+                }
+            }
+
+            if (count === 0)
+                continue;
+
+            const index = (row * cols + col) * 4;
+            samples[index] = r / count;
+            samples[index + 1] = g / count;
+            samples[index + 2] = b / count;
+            samples[index + 3] = a / count;
+        }
+    }
+
+    return samples;
+}
+
+/**
+ * Let the browser scale the source down to one pixel per cell, then read those pixels back.
+ */
+function sampleDrawable(
+    scratch: SampleCanvas,
+    source: Exclude<ImageSource, ImageData>,
+    region: FitRegion,
+    cols: number,
+    rows: number
+): Uint8ClampedArray {
+    if (!scratch.canvas || scratch.canvas.width !== cols || scratch.canvas.height !== rows) {
+        scratch.canvas = createScratchCanvas(cols, rows);
+        scratch.context = (scratch.canvas?.getContext('2d', { willReadFrequently: true }) ?? null) as
+            RenderingContext2D | null;
+    }
+
+    const context = scratch.context;
+
+    if (!context)
+        throw new Error('Sampling images needs a canvas, only raw ImageData can be sampled without one.');
+
+    const { sx, sy, sw, sh, dx, dy, dw, dh } = region;
+    context.clearRect(0, 0, cols, rows);
+    context.imageSmoothingEnabled = true;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(source, sx, sy, sw, sh, dx, dy, dw, dh);
+    return context.getImageData(0, 0, cols, rows).data;
+}
+
+/**
+ * Sample the RGBA color beneath every grid cell, four values per cell. Cells that the
+ * source does not cover, and all cells of a source that has not loaded yet, get zero alpha.
+ */
+export function sampleSource(
+    source: ImageSource,
+    cols: number,
+    rows: number,
+    fit: ImageFit,
+    cellAspect: number,
+    scratch: SampleCanvas
+): Uint8ClampedArray {
+    const { width, height } = getSourceSize(source);
+
+    if (width === 0 || height === 0 || cols === 0 || rows === 0)
+        return new Uint8ClampedArray(cols * rows * 4);
+
+    const region = fitSource(width, height, cols, rows, fit, cellAspect);
+
+    return isImageData(source)
+        ? sampleImageData(source, region, cols, rows)
+        : sampleDrawable(scratch, source, region, cols, rows);
+}
+
+function sample(state: ImageState, { options, cols, rows, cellAspect }: PatternContext): void {
+    const { source, fit = 'cover', cellAspect: sourceAspect = cellAspect } = options.image!;
+    const { width, height } = getSourceSize(source);
+    state.source = source;
+    state.samples = sampleSource(source, cols, rows, fit, sourceAspect, state.scratch);
+
+    if (width === 0 || height === 0)
+        state.sampledAt = NaN;
+    else
+        state.sampledAt = isVideo(source) ? source.currentTime : 0;
+}
+
+/**
+ * Whether the samples are out of date: a new source, a video that moved on, or an image that finished loading.
+ */
+function isStale(state: ImageState, source: ImageSource): boolean {
+    if (state.source !== source || Number.isNaN(state.sampledAt))
+        return true;
+
+    return isVideo(source) && source.currentTime !== state.sampledAt;
+}
+
+/**
+ * Converts an image, video, bitmap or raw pixels into characters by the luminance of every cell.
+ */
+export const imagePattern: StatefulPattern<ImageState> = {
+    init(context) {
+        if (!context.options.image)
+            throw new Error('The image pattern needs an `image` option with a source.');
+
+        const state: ImageState = {
+            samples: new Uint8ClampedArray(0),
+            source: null,
+            sampledAt: NaN,
+            scratch: { canvas: null, context: null },
+        };
+
+        sample(state, context);
+        return state;
+    },
+
+    update(state, context) {
+        const { image } = context.options;
+
+        if (image && isStale(state, image.source))
+            sample(state, context);
+    },
+
+    render(state, surface, { options, colorMap, cols, rows }) {
+        const { samples } = state;
+        const { characters, color } = options;
+        const { sourceColor = false, invert = false } = options.image ?? {};
+
+        for (let row = 0; row < rows; row++) {
+            for (let col = 0; col < cols; col++) {
+                const index = (row * cols + col) * 4;
+                const alpha = samples[index + 3] / 255;
+
+                if (alpha === 0)
+                    continue;
+
+                const r = samples[index], g = samples[index + 1], b = samples[index + 2];
+                const luminance = ((0.2126 * r + 0.7152 * g + 0.0722 * b) / 255) * alpha;
+                const value = invert ? 1 - luminance : luminance;
+                const charIndex = Math.min(Math.floor(value * characters.length), characters.length - 1);
+                const char = characters[Math.max(0, charIndex)] ?? '';
+
+                const cellColor = sourceColor
+                    ? formatColor({ r, g, b, a: 1 })
+                    : colorMap ? colorMap(value, col, row, cols, rows) : color;
+
+                surface.drawChar(char, col, row, cellColor);
+            }
+        }
+    },
+};
@@ -0,0 +1,42 @@
+import { registerPattern } from './registry';
+import { perlinPattern } from './perlin';
+import { wavePattern } from './wave';
+import { rainPattern } from './rain';
+import { staticPattern } from './static';
+import { japanRainPattern } from './japan-rain';
+import { imagePattern } from './image';
+import { lifePattern } from './life';
+import { firePattern } from './fire';
+import { plasmaPattern } from './plasma';
+import { starfieldPattern } from './starfield';
+import { snowPattern } from './snow';
+
+registerPattern('perlin', perlinPattern);
+registerPattern('wave', wavePattern);
+registerPattern('rain', rainPattern);
+registerPattern('static', staticPattern);
+registerPattern('japan-rain', japanRainPattern);
+registerPattern('image', imagePattern);
+registerPattern('life', lifePattern);
+registerPattern('fire', firePattern);
+registerPattern('plasma', plasmaPattern);
+registerPattern('starfield', starfieldPattern);
+registerPattern('snow', snowPattern);
+
+export {
+    registerPattern,
+    unregisterPattern,
+    getPattern,
+    getPatternNames,
+    isStatefulPattern,
+    type PatternName,
+    type PatternNameMap,
+    type PatternContext,
+    type PatternSurface,
+    type PatternDefinition,
+    type NoiseFunction,
+    type StatefulPattern
+} from './registry';
+
+export { ParticleSystem, hasLeftGrid, type Particle, type ParticleSettings } from './particles';
+export { FixedStepper } from './stepper';
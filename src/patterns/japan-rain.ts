@@ -0,0 +1,213 @@
+import { ColorMixer, formatColor } from '../color';
+import type { RandomSource } from '../noise/random';
+import type { ResolvedOptions } from '../options';
+import type { ColorMap } from '../palette';
+import { ParticleSystem, type Particle } from './particles';
+import type { PatternContext, StatefulPattern } from './registry';
+import { FixedStepper } from './stepper';
+
+/**
+ * Unicode range to pick glyphs from, as the first and the last code point.
+ */
+export type GlyphRange = [number, number];
+
+export interface JapanRainOptions {
+    /** Glyphs drops are made of, or `characters` to use the `characters` option. Takes precedence over `ranges`. */
+    glyphs?: string[] | 'characters'
+    /** Unicode ranges glyphs are picked from, each as likely as the others. Defaults to kana and some kanji. */
+    ranges?: GlyphRange[]
+    /** Shortest and longest trail of a drop, in cells. Defaults to `[8, 27]`. */
+    trailLength?: [number, number]
+    /** Slowest and fastest fall speed of a drop, in cells per unit of time. Defaults to `[30, 102]`. */
+    fallSpeed?: [number, number]
+    /** Times per second a drop changes one of its glyphs, regardless of `speed`. Defaults to 2.4. */
+    flickerRate?: number
+    /** Color of the leading glyph of every drop, or false to color it like the trail. Defaults to a pale green. */
+    headGlow?: string | false
+    /** Opacity of the `backgroundColor` drawn over the previous frame, 0-1. Lower values leave longer streaks. */
+    fade?: number
+}
+
+export interface JapanRainDrop extends Particle {
+    chars: string[];
+    length: number;
+}
+
+export interface JapanRainState {
+    drops: ParticleSystem<JapanRainDrop>;
+    stepper: FixedStepper;
+}
+
+/** Katakana, hiragana and a short range of kanji, which looks best. */
+const JAPANESE_RANGES: GlyphRange[] = [
+    [0x30A0, 0x30FE],
+    [0x3040, 0x309E],
+    [0x4E00, 0x4E7F]
+];
+
+/** Simulation steps per unit of animation time, in which the fastest drops fall about a cell. */
+const STEPS_PER_TIME = 100;
+
+/** Head color used without a `palette`. */
+const DEFAULT_HEAD_GLOW = '#ccffcc';
+
+const colors = new ColorMixer();
+
+/**
+ * Settings of the pattern, with defaults applied.
+ */
+function resolveSettings({ japanRain = {} }: ResolvedOptions) {
+    return {
+        trailLength: japanRain.trailLength ?? [8, 27],
+        fallSpeed: japanRain.fallSpeed ?? [30, 102],
+        flickerRate: japanRain.flickerRate ?? 2.4,
+        headGlow: japanRain.headGlow,
+        fade: japanRain.fade ?? 0.2,
+    };
+}
+
+/**
+ * A random number between the bounds of the range, in whichever order they are given.
+ */
+function between([from, to]: [number, number], random: RandomSource): number {
+    return Math.min(from, to) + random() * Math.abs(to - from);
+}
+
+export function randomGlyph(random: RandomSource, ranges: GlyphRange[] = JAPANESE_RANGES): string {
+    const [first, last] = ranges[Math.floor(random() * ranges.length)];
+    return String.fromCodePoint(Math.floor(between([first, last + 1], random)));
+}
+
+export function randomJapaneseChar(random: RandomSource): string {
+    return randomGlyph(random);
+}
+
+/**
+ * Pick a glyph from the pool set by the `japanRain` option.
+ */
+function pickGlyph({ options, random }: PatternContext): string {
+    const { glyphs, ranges } = options.japanRain ?? {};
+    const pool = glyphs === 'characters' ? options.characters : glyphs;
+
+    if (pool && pool.length > 0)
+        return pool[Math.floor(random() * pool.length)];
+
+    return randomGlyph(random, ranges && ranges.length > 0 ? ranges : JAPANESE_RANGES);
+}
+
+/**
+ * The color with its opacity scaled by the given amount, or null for colors `parseColor()` does not support.
+ */
+function scaleOpacity(color: string, amount: number): string | null {
+    const parsed = colors.parse(color);
+    return parsed ? formatColor({ ...parsed, a: parsed.a * amount }) : null;
+}
+
+/**
+ * Colors used without a `palette`: the text color right behind the head and a dimmer trail.
+ */
+function defaultColorMap(color: string): ColorMap {
+    const trail = scaleOpacity(color, 0.7) ?? color;
+    return (value) => value > 0.85 ? color : trail;
+}
+
+function createDrop(col: number, y: number, context: PatternContext): JapanRainDrop {
+    const { trailLength, fallSpeed } = resolveSettings(context.options);
+    const length = Math.max(1, Math.round(between(trailLength, context.random)));
+
+    return {
+        x: col,
+        y,
+        vx: 0,
+        vy: between(fallSpeed, context.random),
+        age: 0,
+        lifetime: Infinity,
+        chars: Array.from({ length }, () => pickGlyph(context)),
+        length,
+    };
+}
+
+function createDrops(): ParticleSystem<JapanRainDrop> {
+    return new ParticleSystem<JapanRainDrop>({
+        spawn(context, replaced) {
+            // Drops that fell out of the grid start over above the same column.
+            if (replaced)
+                return createDrop(replaced.x, -Math.floor(context.random() * 8), context);
+
+            const col = Math.floor(context.random() * context.cols);
+            return createDrop(col, Math.floor(context.random() * context.rows), context);
+        },
+
+        isGone(drop, { rows }) {
+            return drop.y - drop.length > rows;
+        },
+    });
+}
+
+/**
+ * Move the drops on by one step, changing glyphs at the `flickerRate`.
+ */
+function step(drops: ParticleSystem<JapanRainDrop>, context: PatternContext): void {
+    const { options, random, deltaTime } = context;
+    // Flicker by the real time that passed, so that glyphs change at the same pace at any speed.
+    const seconds = options.speed > 0 ? deltaTime / options.speed : 0;
+    const flickerChance = 1 - Math.exp(-resolveSettings(options).flickerRate * seconds);
+
+    drops.update(context);
+
+    for (const drop of drops.particles) {
+        if (random() < flickerChance) {
+            const idx = Math.floor(random() * drop.length);
+            drop.chars[idx] = pickGlyph(context);
+        }
+    }
+}
+
+export const japanRainPattern: StatefulPattern<JapanRainState> = {
+    init(context) {
+        const drops = createDrops();
+
+        for (let col = 0; col < context.cols; col++) {
+            if (context.random() < context.options.rainDensity)
+                drops.particles.push(createDrop(col, Math.floor(context.random() * context.rows), context));
+        }
+
+        return { drops, stepper: new FixedStepper(STEPS_PER_TIME) };
+    },
+
+    update({ drops, stepper }, context, animationTime) {
+        const { options, cols, rows, random } = context;
+        const stepContext = { ...context, deltaTime: stepper.stepTime };
+        stepper.advance(animationTime, () => step(drops, stepContext));
+
+        const neededDrops = Math.floor(cols * options.rainDensity);
+
+        // Added column by column, so that drops spread evenly over the grid.
+        while (drops.particles.length < neededDrops)
+            drops.particles.push(createDrop(drops.particles.length % cols, Math.floor(random() * rows), context));
+
+        drops.setCount(neededDrops, context);
+    },
+
+    render({ drops }, surface, { options, colorMap, cols, rows }) {
+        const { headGlow = colorMap ? false : DEFAULT_HEAD_GLOW, fade } = resolveSettings(options);
+        const colorAt = colorMap ?? defaultColorMap(options.color);
+
+        // Fade the previous frames out towards the background, leaving a streak behind every drop.
+        surface.fill(options.backgroundColor, Math.max(0, Math.min(1, fade)));
+
+        for (const drop of drops.particles) {
+            for (let i = 0; i < drop.length; i++) {
+                const row = Math.floor(drop.y) - i;
+
+                if (row < 0 || row >= surface.rows)
+                    continue;
+
+                // Intensity fades from 1 at the head of the drop towards 0 at its tail.
+                const intensity = 1 - i / drop.length;
+                const color = i === 0 && headGlow !== false ? headGlow : colorAt(intensity, drop.x, row, cols, rows);
+                surface.drawChar(drop.chars[i], drop.x, row, color);
+            }
+        }
+    },
+};
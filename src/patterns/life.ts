@@ -0,0 +1,228 @@
+import type { RandomSource } from '../noise/random';
+import type { PatternContext, StatefulPattern } from './registry';
+import { FixedStepper } from './stepper';
+
+export interface LifeRule {
+    /** Neighbor counts, 0-8, that bring a dead cell to life. */
+    born: boolean[];
+    /** Neighbor counts, 0-8, that keep a living cell alive. */
+    survive: boolean[];
+}
+
+export interface LifeState {
+    cols: number;
+    rows: number;
+    /** 1 for living cells, row by row. */
+    cells: Uint8Array;
+    /** Generations every living cell has been alive for. */
+    ages: Uint16Array;
+    /** Living neighbors of every cell in the current generation. */
+    neighbors: Uint8Array;
+    rule: LifeRule;
+    ruleSource: string;
+    /** Runs one generation per step. */
+    stepper: FixedStepper;
+    /** Hashes of the latest generations, to notice when the grid stops changing. */
+    history: number[];
+    /** Generations in a row that repeated one of the latest ones. */
+    stableGenerations: number;
+}
+
+/** Generations per unit of animation time, i.e. per second at a `speed` of 1. */
+const GENERATIONS_PER_TIME = 10;
+
+/** Number of past generations compared against, which catches oscillators up to this period. */
+const HISTORY_LENGTH = 6;
+
+/** Generations a stable grid is shown for before it is seeded again. */
+const STABLE_GENERATIONS = 12;
+
+/**
+ * Parse a rule in B/S notation, e.g. `B3/S23` for Conway's Game of Life or `B36/S23` for HighLife.
+ * The order of the parts and the case of the letters do not matter.
+ */
+export function parseLifeRule(source: string): LifeRule {
+    const match = /^\s*(?:B([0-8]*)\s*\/\s*S([0-8]*)|S([0-8]*)\s*\/\s*B([0-8]*))\s*$/i.exec(source);
+
+    if (!match)
+        throw new Error(`Invalid life rule "${source}", expected B/S notation such as "B3/S23".`);
+
+    const born = match[1] ?? match[4];
+    const survive = match[2] ?? match[3];
+    const counts = (digits: string) => Array.from({ length: 9 }, (_, count) => digits.includes(String(count)));
+
+    return { born: counts(born), survive: counts(survive) };
+}
+
+function seedCells(state: LifeState, density: number, random: RandomSource): void {
+    for (let index = 0; index < state.cells.length; index++) {
+        state.cells[index] = random() < density ? 1 : 0;
+        state.ages[index] = state.cells[index];
+    }
+}
+
+function createState(cols: number, rows: number, { options, random }: PatternContext): LifeState {
+    const size = cols * rows;
+
+    const state: LifeState = {
+        cols,
+        rows,
+        cells: new Uint8Array(size),
+        ages: new Uint16Array(size),
+        neighbors: new Uint8Array(size),
+        rule: parseLifeRule(options.lifeRule),
+        ruleSource: options.lifeRule,
+        stepper: new FixedStepper(GENERATIONS_PER_TIME),
+        history: [],
+        stableGenerations: 0,
+    };
+
+    seedCells(state, options.lifeDensity, random);
+    countNeighbors(state, options.lifeWrap);
+    return state;
+}
+
+function countNeighbors({ cols, rows, cells, neighbors }: LifeState, wrap: boolean): void {
+    for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+            let count = 0;
+
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    if (dx === 0 && dy === 0)
+                        continue;
+
+                    let x = col + dx;
+                    let y = row + dy;
+
+                    if (wrap) {
+                        x = (x + cols) % cols;
+                        y = (y + rows) % rows;
+                    } else if (x < 0 || y < 0 || x >= cols || y >= rows)
+                        continue;
+
+                    count += cells[y * cols + x];
+                }
+            }
+
+            neighbors[row * cols + col] = count;
+        }
+    }
+}
+
+/**
+ * FNV-1a hash of the living cells.
+ */
+function hashCells(cells: Uint8Array): number {
+    let hash = 0x811C9DC5;
+
+    for (let index = 0; index < cells.length; index++)
+        hash = Math.imul(hash ^ cells[index], 0x01000193);
+
+    return hash >>> 0;
+}
+
+/**
+ * Run one generation. Returns whether the grid repeated one of its latest generations.
+ */
+function step(state: LifeState, wrap: boolean): boolean {
+    const { cells, ages, neighbors, rule } = state;
+
+    for (let index = 0; index < cells.length; index++) {
+        const alive = cells[index] === 1
+            ? rule.survive[neighbors[index]]
+            : rule.born[neighbors[index]];
+
+        cells[index] = alive ? 1 : 0;
+        ages[index] = alive ? Math.min(ages[index] + 1, 0xFFFF) : 0;
+    }
+
+    countNeighbors(state, wrap);
+
+    const hash = hashCells(cells);
+    const repeated = state.history.includes(hash);
+    state.history.push(hash);
+
+    if (state.history.length > HISTORY_LENGTH)
+        state.history.shift();
+
+    return repeated;
+}
+
+function reseed(state: LifeState, { options, random }: PatternContext): void {
+    seedCells(state, options.lifeDensity, random);
+    countNeighbors(state, options.lifeWrap);
+    state.history = [];
+    state.stableGenerations = 0;
+}
+
+export const lifePattern: StatefulPattern<LifeState> = {
+    init(context) {
+        return createState(context.cols, context.rows, context);
+    },
+
+    resize(previous, context) {
+        const { cols, rows, options } = context;
+        const state = createState(cols, rows, context);
+        // Keep the previous grid centered, with the cells it does not cover seeded afresh.
+        const offsetX = Math.floor((cols - previous.cols) / 2);
+        const offsetY = Math.floor((rows - previous.rows) / 2);
+
+        for (let row = 0; row < rows; row++) {
+            for (let col = 0; col < cols; col++) {
+                const x = col - offsetX;
+                const y = row - offsetY;
+
+                if (x < 0 || y < 0 || x >= previous.cols || y >= previous.rows)
+                    continue;
+
+                state.cells[row * cols + col] = previous.cells[y * previous.cols + x];
+                state.ages[row * cols + col] = previous.ages[y * previous.cols + x];
+            }
+        }
+
+        countNeighbors(state, options.lifeWrap);
+        state.stepper = previous.stepper;
+        return state;
+    },
+
+    update(state, context, animationTime) {
+        const { options } = context;
+
+        if (options.lifeRule !== state.ruleSource) {
+            state.rule = parseLifeRule(options.lifeRule);
+            state.ruleSource = options.lifeRule;
+        }
+
+        state.stepper.advance(animationTime, () => {
+            const repeated = step(state, options.lifeWrap);
+            state.stableGenerations = repeated ? state.stableGenerations + 1 : 0;
+
+            if (state.stableGenerations >= STABLE_GENERATIONS || !state.cells.includes(1))
+                reseed(state, context);
+        });
+    },
+
+    render(state, surface, { options, colorMap, cols, rows }) {
+        const { characters, color, lifeMapping } = options;
+        const levels = characters.length;
+
+        if (levels === 0)
+            return;
+
+        for (let index = 0; index < state.cells.length; index++) {
+            if (state.cells[index] === 0)
+                continue;
+
+            // Newborn or lonely cells take the first character, old or crowded ones the last.
+            const level = lifeMapping === 'neighbors'
+                ? Math.round((state.neighbors[index] / 8) * (levels - 1))
+                : Math.min(state.ages[index], levels) - 1;
+
+            const col = index % state.cols;
+            const row = Math.floor(index / state.cols);
+            const value = (level + 1) / levels;
+            surface.drawChar(characters[level], col, row, colorMap ? colorMap(value, col, row, cols, rows) : color);
+        }
+    },
+};
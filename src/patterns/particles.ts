@@ -0,0 +1,114 @@
+import type { PatternContext, PatternSurface } from './registry';
+
+/**
+ * A point moving through the grid.
+ */
+export interface Particle {
+    /** Position in cells, from the top left corner of the grid. */
+    x: number
+    y: number
+    /** Velocity in cells per unit of animation time. */
+    vx: number
+    vy: number
+    /** Animation time the particle has been alive for. */
+    age: number
+    /** Animation time the particle lives for, `Infinity` to live until it leaves the grid. */
+    lifetime: number
+}
+
+export interface ParticleSettings<T extends Particle> {
+    /** Create a particle. `replaced` is the particle it takes the place of, if any. */
+    spawn(context: PatternContext, replaced?: T): T
+    /** Change the velocity of a particle before it moves, e.g. to apply gravity or wind. */
+    accelerate?(particle: T, context: PatternContext): void
+    /** Whether a particle that has not outlived its lifetime is gone. Defaults to it having left the grid. */
+    isGone?(particle: T, context: PatternContext): boolean
+    /** Wrap particles around the left and right edges instead of letting them leave the grid. */
+    wrapX?: boolean
+}
+
+/**
+ * Whether a particle is past an edge of the grid and moving away from it.
+ * Particles spawned outside the grid that move towards it are not gone yet.
+ */
+export function hasLeftGrid({ x, y, vx, vy }: Particle, { cols, rows }: PatternContext): boolean {
+    return (x < 0 && vx <= 0) || (x >= cols && vx >= 0) || (y < 0 && vy <= 0) || (y >= rows && vy >= 0);
+}
+
+/**
+ * A set of particles in grid space, which are spawned, moved and replaced once they are gone.
+ */
+export class ParticleSystem<T extends Particle> {
+    public particles: T[] = [];
+    private _settings: ParticleSettings<T>;
+
+    constructor(settings: ParticleSettings<T>) {
+        this._settings = settings;
+    }
+
+    /**
+     * Spawn or drop particles until there are the given number of them.
+     */
+    setCount(count: number, context: PatternContext): void {
+        const target = Math.max(0, Math.floor(count));
+
+        while (this.particles.length < target)
+            this.particles.push(this._settings.spawn(context));
+
+        this.particles.length = target;
+    }
+
+    /**
+     * Move every particle by the animation time passed, replacing those that are gone.
+     */
+    update(context: PatternContext): void {
+        const settings = this._settings;
+        const { deltaTime, cols } = context;
+        const particles = this.particles;
+
+        for (let index = 0; index < particles.length; index++) {
+            const particle = particles[index];
+            settings.accelerate?.(particle, context);
+
+            particle.x += particle.vx * deltaTime;
+            particle.y += particle.vy * deltaTime;
+            particle.age += deltaTime;
+
+            if (settings.wrapX && cols > 0)
+                particle.x = ((particle.x % cols) + cols) % cols;
+
+            const gone = settings.isGone ? settings.isGone(particle, context) : hasLeftGrid(particle, context);
+
+            if (particle.age >= particle.lifetime || gone)
+                particles[index] = settings.spawn(context, particle);
+        }
+    }
+
+    /**
+     * Draw every particle inside the grid, picking its character and color by a value of 0-1,
+     * e.g. its speed or depth.
+     */
+    render(
+        surface: PatternSurface,
+        { options, colorMap, cols, rows }: PatternContext,
+        value: (particle: T) => number
+    ): void {
+        const { characters, color } = options;
+        const levels = characters.length;
+
+        if (levels === 0)
+            return;
+
+        for (const particle of this.particles) {
+            const col = Math.floor(particle.x);
+            const row = Math.floor(particle.y);
+
+            if (col < 0 || row < 0 || col >= cols || row >= rows)
+                continue;
+
+            const level = Math.max(0, Math.min(1, value(particle)));
+            const char = characters[Math.min(Math.floor(level * levels), levels - 1)];
+            surface.drawChar(char, col, row, colorMap ? colorMap(level, col, row, cols, rows) : color);
+        }
+    }
+}
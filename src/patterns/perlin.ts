@@ -0,0 +1,18 @@
+import { fractalNoise } from '../noise/fractal';
+import type { NoiseFunction } from './registry';
+
+export const perlinPattern: NoiseFunction = (x, y, time, { options, perlin }) => {
+    const { direction = 'up', noiseScale, drift } = options;
+    const offset = time * drift;
+    let dx = x * noiseScale, dy = y * noiseScale;
+
+    // Time runs along the third axis as well, so the noise changes shape while it drifts.
+    switch (direction) {
+        case 'left':  dx += offset; break;
+        case 'right': dx -= offset; break;
+        case 'up':    dy += offset; break;
+        case 'down':  dy -= offset; break;
+    }
+
+    return fractalNoise(perlin, dx, dy, time, options);
+};
@@ -0,0 +1,31 @@
+import type { NoiseFunction } from './registry';
+
+/** Spatial frequency of the plasma at a `frequency` of 1, in radians per cell. */
+const BASE_FREQUENCY = 0.15;
+
+export const plasmaPattern: NoiseFunction = (x, y, time, { options, cols, rows, cellAspect }) => {
+    const { direction = 'down', frequency } = options;
+    const scale = BASE_FREQUENCY * frequency;
+    // Cells are usually taller than wide, so columns are scaled down to keep the rings round.
+    const cx = (x - cols / 2) * cellAspect * scale;
+    const cy = (y - rows / 2) * scale;
+    // The rings stay centered while the straight bands drift in `direction`.
+    let px = cx, py = cy;
+
+    switch (direction) {
+        case 'left':  px += time; break;
+        case 'right': px -= time; break;
+        case 'up':    py += time; break;
+        case 'down':  py -= time; break;
+    }
+
+    const distance = Math.sqrt(cx * cx + cy * cy);
+    const angle = Math.atan2(cy, cx);
+
+    const sum = Math.sin(px + time * 0.3)
+        + Math.sin((px + py) * 0.7 + time * 0.8)
+        + Math.sin(distance * 1.5 - time * 1.3)
+        + Math.sin(angle * 3 + distance * 0.5 + time * 0.6);
+
+    return sum / 4;
+};
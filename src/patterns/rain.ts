@@ -0,0 +1,140 @@
+import { resolveWind } from '../options';
+import { ParticleSystem, type Particle } from './particles';
+import type { PatternContext, StatefulPattern } from './registry';
+import { FixedStepper } from './stepper';
+
+export interface RainDrop extends Particle {
+    /** Speed of the drop relative to the others, 0-1. */
+    weight: number;
+}
+
+export interface RainSplash {
+    col: number;
+    row: number;
+    /** Animation time since the drop landed. */
+    age: number;
+}
+
+export interface RainState {
+    drops: ParticleSystem<RainDrop>;
+    splashes: RainSplash[];
+    stepper: FixedStepper;
+}
+
+/** Drops per grid cell at a `rainDensity` of 1. */
+const DROPS_PER_CELL = 0.05;
+
+/** Speed of the slowest and the fastest drops, in rows per unit of animation time. */
+const MIN_FALL_SPEED = 20;
+const MAX_FALL_SPEED = 40;
+
+/** Simulation steps per unit of animation time, in which the fastest drops fall less than a cell. */
+const STEPS_PER_TIME = 60;
+
+/** Steepest angle the wind blows the rain at, in degrees from vertical. */
+const MAX_WIND = 80;
+
+/** Animation time a splash is shown for, split evenly between the `rainSplash` characters. */
+const SPLASH_DURATION = 0.3;
+
+/**
+ * Row drops land on, as set by `rainFloor`.
+ */
+function floorRow({ options, rows }: PatternContext): number {
+    return Math.max(0, Math.min(rows - 1, rows - 1 - Math.floor(options.rainFloor)));
+}
+
+function spawnDrop(context: PatternContext, replaced?: RainDrop): RainDrop {
+    const { options, cols, cellAspect, random } = context;
+    const weight = random();
+    const speed = MIN_FALL_SPEED + weight * (MAX_FALL_SPEED - MIN_FALL_SPEED);
+    const angle = (Math.max(-MAX_WIND, Math.min(MAX_WIND, resolveWind(options))) * Math.PI) / 180;
+    // Cells are usually taller than wide, so drops cross more columns than rows for the same distance.
+    const vx = (speed * Math.tan(angle)) / (cellAspect || 1);
+
+    return {
+        // Drops that landed come back in above the grid, the first ones anywhere above the floor.
+        x: random() * cols,
+        y: replaced ? -random() * 3 : random() * floorRow(context),
+        vx,
+        vy: speed,
+        age: 0,
+        lifetime: Infinity,
+        weight,
+    };
+}
+
+function createState(): RainState {
+    const state: RainState = {
+        splashes: [],
+        stepper: new FixedStepper(STEPS_PER_TIME),
+
+        drops: new ParticleSystem<RainDrop>({
+            spawn(context, replaced) {
+                // Drops are replaced once they reach the floor, which is where they splash.
+                if (replaced && context.options.rainSplash?.length)
+                    state.splashes.push({ col: Math.floor(replaced.x), row: floorRow(context), age: 0 });
+
+                return spawnDrop(context, replaced);
+            },
+
+            isGone(drop, context) {
+                return drop.y >= floorRow(context);
+            },
+
+            wrapX: true,
+        }),
+    };
+
+    return state;
+}
+
+function updateSplashes(state: RainState, { deltaTime }: PatternContext): void {
+    for (const splash of state.splashes)
+        splash.age += deltaTime;
+
+    state.splashes = state.splashes.filter((splash) => splash.age < SPLASH_DURATION);
+}
+
+export const rainPattern: StatefulPattern<RainState> = {
+    init(context) {
+        const state = createState();
+        state.drops.setCount(context.cols * context.rows * context.options.rainDensity * DROPS_PER_CELL, context);
+        return state;
+    },
+
+    // Drops below a lower floor land on the next update, and those past the sides wrap around.
+    resize(state) {
+        return state;
+    },
+
+    update(state, context, animationTime) {
+        const { options, cols, rows } = context;
+        const stepContext = { ...context, deltaTime: state.stepper.stepTime };
+        state.drops.setCount(cols * rows * options.rainDensity * DROPS_PER_CELL, context);
+
+        state.stepper.advance(animationTime, () => {
+            updateSplashes(state, stepContext);
+            state.drops.update(stepContext);
+        });
+    },
+
+    render(state, surface, context) {
+        const { options, colorMap, cols, rows } = context;
+        const splash = options.rainSplash ?? [];
+
+        // Slow drops take the first characters, fast ones the last.
+        state.drops.render(surface, context, (drop) => drop.weight);
+
+        for (const { col, row, age } of state.splashes) {
+            // Splashes fade from the value of a fresh drop towards 0.
+            const value = 1 - age / SPLASH_DURATION;
+            const char = splash[Math.min(Math.floor((1 - value) * splash.length), splash.length - 1)];
+
+            if (char === undefined || col >= cols || row >= rows)
+                continue;
+
+            surface.drawChar(char, col, row, colorMap ? colorMap(value, col, row, cols, rows) : options.color);
+        }
+    },
+};
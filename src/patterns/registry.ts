@@ -0,0 +1,134 @@
+import type { PerlinNoise } from '../noise/perlin';
+import type { RandomSource } from '../noise/random';
+import type { ResolvedOptions } from '../options';
+import type { ColorMap } from '../palette';
+
+/**
+ * Names of the available patterns. Custom patterns are added to the type
+ * system by augmenting this interface:
+ *
+ * ```typescript
+ * declare module 'asciiground' {
+ *     interface PatternNameMap {
+ *         'swirl': true
+ *     }
+ * }
+ * ```
+ */
+export interface PatternNameMap {
+    'perlin': true
+    'wave': true
+    'rain': true
+    'static': true
+    'japan-rain': true
+    'image': true
+    'life': true
+    'fire': true
+    'plasma': true
+    'starfield': true
+    'snow': true
+}
+
+export type PatternName = keyof PatternNameMap;
+
+/**
+ * Per-frame information handed to pattern functions and hooks.
+ */
+export interface PatternContext {
+    /** Current options, with defaults applied. */
+    options: ResolvedOptions
+    /** Number of grid columns. */
+    cols: number
+    /** Number of grid rows. */
+    rows: number
+    /** Width of a grid cell divided by its height. */
+    cellAspect: number
+    /** Animation time passed since the previous frame, i.e. seconds scaled by `speed`. Zero on the first frame. */
+    deltaTime: number
+    /** Perlin noise generator owned by the rendering instance. */
+    perlin: PerlinNoise
+    /** Random number generator to use instead of `Math.random`, seeded by the `seed` option. */
+    random: RandomSource
+    /** Compiled `palette` option, or null when the text color is used for every cell. */
+    colorMap: ColorMap | null
+}
+
+export interface NoiseFunction {
+    (x: number, y: number, time: number, context: PatternContext): number
+}
+
+/**
+ * Grid-space drawing target for stateful patterns.
+ */
+export interface PatternSurface {
+    readonly cols: number
+    readonly rows: number
+    /** Draw a character at the given cell, using the text color when no color is given. */
+    drawChar(char: string, col: number, row: number, color?: string): void
+    /**
+     * Fill the whole surface over the previous frame at the given opacity, 1 by default,
+     * e.g. to fade it out and leave streaks behind moving glyphs.
+     */
+    fill(color: string, opacity?: number): void
+}
+
+/**
+ * A pattern that keeps its own simulation state between frames.
+ */
+export interface StatefulPattern<TState = unknown> {
+    /** Create the initial state. Called on start, on option updates, and on resize unless `resize` is given. */
+    init(context: PatternContext): TState
+    /** Carry the state over to a grid of a new size, which `context` describes. */
+    resize?(state: TState, context: PatternContext): TState
+    /** Advance the simulation by one frame. */
+    update(state: TState, context: PatternContext, time: number): void
+    /** Draw the current state. */
+    render(state: TState, surface: PatternSurface, context: PatternContext): void
+}
+
+/**
+ * A pattern is either a stateless noise function, whose value in the range
+ * of -1 to 1 is mapped onto the characters, or a stateful simulation.
+ */
+export type PatternDefinition = NoiseFunction | StatefulPattern<unknown>;
+
+const patterns = new Map<string, PatternDefinition>();
+
+/**
+ * Register a pattern under the given name, replacing any existing one.
+ */
+export function registerPattern(name: string, definition: PatternDefinition): void {
+    patterns.set(name, definition);
+}
+
+/**
+ * Remove a previously registered pattern.
+ */
+export function unregisterPattern(name: string): boolean {
+    return patterns.delete(name);
+}
+
+/**
+ * Look up a registered pattern.
+ */
+export function getPattern(name: string): PatternDefinition {
+    const definition = patterns.get(name);
+
+    if (!definition)
+        throw new Error(`Unknown pattern "${name}".`);
+
+    return definition;
+}
+
+/**
+ * Names of all registered patterns, in registration order.
+ */
+export function getPatternNames(): string[] {
+    return [...patterns.keys()];
+}
+
+export function isStatefulPattern(
+    definition: PatternDefinition
+): definition is Exclude<PatternDefinition, NoiseFunction> {
+    return typeof definition !== 'function';
+}
@@ -0,0 +1,90 @@
+import type { ResolvedOptions } from '../options';
+import { ParticleSystem, type Particle } from './particles';
+import type { PatternContext, StatefulPattern } from './registry';
+import { FixedStepper } from './stepper';
+
+export interface Flake extends Particle {
+    /** Size of the flake, 0-1. Larger flakes look closer, so they fall faster and sway less. */
+    size: number;
+    /** Offset of the sideways sway, in radians. */
+    phase: number;
+}
+
+export interface SnowState {
+    flakes: ParticleSystem<Flake>;
+    stepper: FixedStepper;
+}
+
+/** Simulation steps per unit of animation time. */
+const STEPS_PER_TIME = 30;
+
+/** Sideways speed of the sway of the smallest flakes, in cells per unit of time. */
+const SWAY = 1.5;
+
+/** Sway cycles, in radians per unit of animation time. */
+const SWAY_RATE = 1.5;
+
+/** How quickly flakes take on the speed of gravity and wind, per unit of animation time. */
+const DRAG = 2;
+
+function fallSpeed(size: number, { snowGravity }: ResolvedOptions): number {
+    return snowGravity * (0.5 + size * 0.5);
+}
+
+function spawnFlake({ options, cols, rows, random }: PatternContext, replaced?: Flake): Flake {
+    const size = random();
+    let y = random() * rows;
+
+    // Flakes that replace others come in from the edge they move away from.
+    if (replaced)
+        y = options.snowGravity >= 0 ? -random() * 2 : rows + random() * 2;
+
+    return {
+        x: random() * cols,
+        y,
+        vx: options.snowWind,
+        vy: fallSpeed(size, options),
+        age: 0,
+        lifetime: Infinity,
+        size,
+        phase: random() * Math.PI * 2,
+    };
+}
+
+function createFlakes(): ParticleSystem<Flake> {
+    return new ParticleSystem<Flake>({
+        spawn: spawnFlake,
+        wrapX: true,
+
+        accelerate(flake, { options, deltaTime }) {
+            const pull = Math.min(1, deltaTime * DRAG);
+            const sway = Math.sin(flake.age * SWAY_RATE + flake.phase) * SWAY * (1 - flake.size * 0.5);
+            flake.vx += (options.snowWind + sway - flake.vx) * pull;
+            flake.vy += (fallSpeed(flake.size, options) - flake.vy) * pull;
+        },
+    });
+}
+
+export const snowPattern: StatefulPattern<SnowState> = {
+    init(context) {
+        const flakes = createFlakes();
+        flakes.setCount(context.cols * context.rows * context.options.snowDensity, context);
+        return { flakes, stepper: new FixedStepper(STEPS_PER_TIME) };
+    },
+
+    // Flakes outside a smaller grid wrap around or fall out of it on their own.
+    resize(state) {
+        return state;
+    },
+
+    update({ flakes, stepper }, context, animationTime) {
+        const stepContext = { ...context, deltaTime: stepper.stepTime };
+        flakes.setCount(context.cols * context.rows * context.options.snowDensity, context);
+        stepper.advance(animationTime, () => flakes.update(stepContext));
+    },
+
+    render({ flakes }, surface, context) {
+        // Small flakes take the first characters, large ones the last.
+        flakes.render(surface, context, (flake) => flake.size);
+    },
+};
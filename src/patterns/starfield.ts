@@ -0,0 +1,87 @@
+import { hasLeftGrid, ParticleSystem, type Particle } from './particles';
+import type { PatternContext, StatefulPattern } from './registry';
+import { FixedStepper } from './stepper';
+
+export interface Star extends Particle {
+    /** Distance from the viewer, where 1 is the depth at which the grid spans the spawn area. */
+    z: number;
+}
+
+export interface StarfieldState {
+    stars: ParticleSystem<Star>;
+    /** Grid size the stars are positioned for. */
+    cols: number;
+    rows: number;
+    stepper: FixedStepper;
+}
+
+/** Simulation steps per unit of animation time. */
+const STEPS_PER_TIME = 60;
+
+/** Depth stars are spawned at, so that they appear close to the center. */
+const MAX_DEPTH = 4;
+
+/** Depth at which stars pass the viewer and are replaced. */
+const MIN_DEPTH = 0.05;
+
+/** Depth travelled per unit of animation time. */
+const WARP_SPEED = 1;
+
+function spawnStar({ cols, rows, random }: PatternContext, replaced?: Star): Star {
+    // Stars that replace others start far away, the first ones anywhere along the way.
+    const z = replaced ? MAX_DEPTH : MIN_DEPTH + random() * (MAX_DEPTH - MIN_DEPTH);
+    const x = cols / 2 + ((random() - 0.5) * cols) / z;
+    const y = rows / 2 + ((random() - 0.5) * rows) / z;
+
+    return { x, y, vx: 0, vy: 0, age: 0, lifetime: Infinity, z };
+}
+
+function createStars(): ParticleSystem<Star> {
+    return new ParticleSystem<Star>({
+        spawn: spawnStar,
+
+        accelerate(star, { cols, rows, deltaTime }) {
+            star.z -= WARP_SPEED * deltaTime;
+            // Projected onto the grid, stars move away from the center the faster the closer they are.
+            const rate = WARP_SPEED / Math.max(star.z, MIN_DEPTH);
+            star.vx = (star.x - cols / 2) * rate;
+            star.vy = (star.y - rows / 2) * rate;
+        },
+
+        isGone(star, context) {
+            return star.z <= MIN_DEPTH || hasLeftGrid(star, context);
+        },
+    });
+}
+
+export const starfieldPattern: StatefulPattern<StarfieldState> = {
+    init(context) {
+        const stars = createStars();
+        stars.setCount(context.cols * context.rows * context.options.starDensity, context);
+        return { stars, cols: context.cols, rows: context.rows, stepper: new FixedStepper(STEPS_PER_TIME) };
+    },
+
+    resize(state, { cols, rows }) {
+        // Keep the stars around the center of the grid.
+        const offsetX = (cols - state.cols) / 2;
+        const offsetY = (rows - state.rows) / 2;
+
+        for (const star of state.stars.particles) {
+            star.x += offsetX;
+            star.y += offsetY;
+        }
+
+        return { ...state, cols, rows };
+    },
+
+    update({ stars, stepper }, context, animationTime) {
+        const stepContext = { ...context, deltaTime: stepper.stepTime };
+        stars.setCount(context.cols * context.rows * context.options.starDensity, context);
+        stepper.advance(animationTime, () => stars.update(stepContext));
+    },
+
+    render({ stars }, surface, context) {
+        // Far stars take the first characters, close ones the last.
+        stars.render(surface, context, (star) => 1 - star.z / MAX_DEPTH);
+    },
+};
@@ -0,0 +1,3 @@
+import type { NoiseFunction } from './registry';
+
+export const staticPattern: NoiseFunction = (_x, _y, _time, { random }) => random() * 2 - 1;
@@ -0,0 +1,35 @@
+/**
+ * Most animation time simulated in one update. More time than this between two frames is taken
+ * for a stall, e.g. a hidden tab shown again while `pauseWhenHidden` is off, and the rest is skipped.
+ */
+export const MAX_CATCH_UP_TIME = 10;
+
+/**
+ * Runs a simulation on fixed steps of the animation time, counted from a time of 0, so that it ends up
+ * in the same state however the time is split into frames, including when seeking to a point.
+ */
+export class FixedStepper {
+    /** Animation time a step stands for. */
+    public readonly stepTime: number;
+    private _stepsPerTime: number;
+    private _step: number | null = null;
+
+    constructor(stepsPerTime: number) {
+        this._stepsPerTime = stepsPerTime;
+        this.stepTime = 1 / stepsPerTime;
+    }
+
+    /**
+     * Run the steps due up to the given animation time. The first call only sets the starting point,
+     * and time running backwards, e.g. when the animation restarts, carries on from the current state.
+     */
+    advance(animationTime: number, step: () => void): void {
+        const target = Math.floor(animationTime * this._stepsPerTime);
+        const from = Math.max(this._step ?? target, target - Math.ceil(MAX_CATCH_UP_TIME * this._stepsPerTime));
+
+        for (let index = from; index < target; index++)
+            step();
+
+        this._step = target;
+    }
+}
@@ -0,0 +1,18 @@
+import type { NoiseFunction } from './registry';
+
+export const wavePattern: NoiseFunction = (x, y, time, { options }) => {
+    const { direction = 'down', amplitudeX, amplitudeY, frequency } = options;
+    let t = time * frequency;
+
+    switch (direction) {
+        case 'left':  t = -t; break;
+        // case 'right': t = t; break;
+        case 'up':    t = -t; break;
+        // case 'down':  t = t; break;
+    }
+
+    return (
+        Math.sin(x * 0.1 * amplitudeX + t) *
+        Math.cos(y * 0.1 * amplitudeY + t * 0.5)
+    );
+};
@@ -0,0 +1,111 @@
+import type { ASCIIGroundOptions } from './options';
+
+export type PresetName =
+    | 'matrix'
+    | 'classic-rain'
+    | 'ocean-waves'
+    | 'tv-static'
+    | 'cyberpunk-waves'
+    | 'campfire'
+    | 'lava-lamp'
+    | 'warp-speed'
+    | 'snowfall'
+    | 'game-of-life';
+
+/**
+ * Ready-made looks, which can be used as they are or extended with options of their own:
+ *
+ * ```typescript
+ * new ASCIIGround(canvas, { ...presets.matrix, color: '#ff00ff' });
+ * ```
+ */
+export const presets: Record<PresetName, ASCIIGroundOptions> = {
+    'matrix': {
+        pattern: 'japan-rain',
+        characters: [],
+        speed: 0.06,
+        fontSize: 18,
+        color: '#4dfb4a',
+        backgroundColor: '#000000',
+        rainDensity: 0.92,
+        japanRain: { headGlow: '#ccffcc' },
+    },
+    'classic-rain': {
+        pattern: 'rain',
+        characters: ['.', ':', '!', '|', '1', '0'],
+        speed: 0.5,
+        fontSize: 14,
+        color: '#00ff00',
+        backgroundColor: '#000000',
+        rainDensity: 0.9,
+        rainSplash: ['o', '.'],
+    },
+    'ocean-waves': {
+        pattern: 'wave',
+        characters: [' ', '.', '-', '~', '=', '≈'],
+        speed: 0.4,
+        backgroundColor: '#01121f',
+        palette: { type: 'gradient', stops: ['#0a3d62', '#3c9ee5', '#d6f1ff'] },
+        direction: 'right',
+        amplitudeX: 1.5,
+        amplitudeY: 0.8,
+        frequency: 0.7,
+    },
+    'tv-static': {
+        pattern: 'static',
+        characters: [' ', '.', ':', '░', '▒', '▓', '█'],
+        speed: 1,
+        color: '#d0d0d0',
+        backgroundColor: '#101010',
+    },
+    'cyberpunk-waves': {
+        pattern: 'wave',
+        characters: [' ', '░', '▒', '▓', '█'],
+        speed: 0.03,
+        color: '#ff00ff',
+        backgroundColor: '#1a0a1a',
+        amplitudeX: 2,
+        amplitudeY: 1.5,
+        frequency: 1.1,
+    },
+    'campfire': {
+        pattern: 'fire',
+        characters: [' ', '.', ':', '*', 's', '$', '#', '@'],
+        speed: 1,
+        backgroundColor: '#000000',
+        fireIntensity: 0.9,
+        fireCooling: 0.45,
+    },
+    'lava-lamp': {
+        pattern: 'plasma',
+        characters: [' ', '.', 'o', 'O', '@'],
+        speed: 0.3,
+        backgroundColor: '#14000a',
+        palette: { type: 'gradient', stops: ['#3d0018', '#e0422b', '#ffc845'] },
+        frequency: 0.6,
+    },
+    'warp-speed': {
+        pattern: 'starfield',
+        characters: ['.', '+', '*'],
+        speed: 1,
+        color: '#ffffff',
+        backgroundColor: '#000008',
+        starDensity: 0.08,
+    },
+    'snowfall': {
+        pattern: 'snow',
+        characters: ['.', '*', '❄'],
+        speed: 1,
+        color: '#e8f4ff',
+        backgroundColor: '#0b1726',
+        snowWind: 1.5,
+    },
+    'game-of-life': {
+        pattern: 'life',
+        characters: ['░', '▒', '▓', '█'],
+        speed: 0.5,
+        color: '#7cf3a0',
+        backgroundColor: '#0a0f0a',
+        lifeDensity: 0.25,
+    },
+};
@@ -0,0 +1,219 @@
+import type { CellBuffer } from './cell-buffer';
+import { GlyphAtlas, type RenderingContext2D } from './glyph-atlas';
+
+export interface CanvasRendererSettings {
+    /** Width of the canvas in pixels. */
+    width: number
+    /** Height of the canvas in pixels. */
+    height: number
+    /** CSS font of the characters. */
+    font: string
+    /** Width of a grid cell in pixels. */
+    cellWidth: number
+    /** Height of a grid cell in pixels. */
+    cellHeight: number
+    /** Color filled behind the characters. */
+    backgroundColor: string
+    /** Blit characters from a glyph atlas instead of drawing them as text. */
+    glyphAtlas: boolean
+    /** Only redraw cells whose character or color changed since the previous frame. */
+    dirtyCells: boolean
+}
+
+export interface RenderStats {
+    /** Number of `fillRect`, `fillText` and `drawImage` calls made for the last frame. */
+    drawCalls: number
+    /** Number of cells drawn for the last frame. */
+    cellsDrawn: number
+    /** Whether the last frame was redrawn completely. */
+    fullRedraw: boolean
+}
+
+/**
+ * Draws cell buffers onto a 2D canvas context.
+ */
+export class CanvasRenderer {
+    private _context: RenderingContext2D;
+    private _settings: CanvasRendererSettings;
+    private _atlas: GlyphAtlas | null = null;
+    private _previousChars: string[] = [];
+    private _previousColors: string[] = [];
+    private _previousOpaque: boolean[] = [];
+    private _previousCols: number = -1;
+    private _previousRows: number = -1;
+    private _invalidated: boolean = true;
+    /** Whether the canvas holds nothing usable, so that frames cannot be drawn over the previous one. */
+    private _cleared: boolean = true;
+    /** Whether the previous frame was drawn over the one before it. */
+    private _faded: boolean = false;
+    private _fillStyle: string = '';
+
+    public readonly stats: RenderStats = { drawCalls: 0, cellsDrawn: 0, fullRedraw: false };
+
+    constructor(context: RenderingContext2D, settings: CanvasRendererSettings) {
+        this._context = context;
+        this._settings = settings;
+    }
+
+    get atlas(): GlyphAtlas | null {
+        return this._atlas;
+    }
+
+    configure(settings: CanvasRendererSettings): void {
+        const previous = this._settings;
+        this._settings = settings;
+
+        if (!settings.glyphAtlas)
+            this._atlas = null;
+        else if (!this._atlas?.matches(settings.font, settings.cellWidth, settings.cellHeight))
+            this._atlas = GlyphAtlas.create(settings.font, settings.cellWidth, settings.cellHeight);
+
+        if (
+            previous.width !== settings.width ||
+            previous.height !== settings.height ||
+            previous.font !== settings.font ||
+            previous.cellWidth !== settings.cellWidth ||
+            previous.cellHeight !== settings.cellHeight ||
+            previous.backgroundColor !== settings.backgroundColor ||
+            previous.glyphAtlas !== settings.glyphAtlas
+        ) {
+            this.invalidate();
+            this._cleared = true;
+        }
+    }
+
+    /**
+     * Force the next frame to be redrawn completely.
+     */
+    invalidate(): void {
+        this._invalidated = true;
+    }
+
+    render(frame: CellBuffer): void {
+        this.stats.drawCalls = 0;
+        this.stats.cellsDrawn = 0;
+        this._fillStyle = '';
+
+        const resized = frame.cols !== this._previousCols || frame.rows !== this._previousRows;
+        // Frames with fills are drawn over the previous one, which the fills fade out.
+        const fading = frame.fills.length > 0 && !this._cleared && !resized;
+
+        // Faded frames leave glyphs behind that dirty cells know nothing about.
+        const fullRedraw = !this._settings.dirtyCells
+            || this._invalidated
+            || frame.fills.length > 0
+            || this._faded
+            || resized;
+
+        this.stats.fullRedraw = fullRedraw;
+
+        if (fullRedraw)
+            this.renderAll(frame, !fading);
+        else
+            this.renderChanged(frame);
+
+        this._invalidated = false;
+        this._cleared = false;
+        this._faded = frame.fills.length > 0;
+        this._previousOpaque = frame.opaque.slice();
+        this._previousCols = frame.cols;
+        this._previousRows = frame.rows;
+    }
+
+    private renderAll(frame: CellBuffer, clear: boolean): void {
+        const { width, height } = this._settings;
+
+        if (clear) {
+            this.setFillStyle(this._settings.backgroundColor);
+            this.fillRect(0, 0, width, height);
+        }
+
+        for (const { color, opacity } of frame.fills) {
+            this.setFillStyle(color);
+            this._context.globalAlpha = opacity;
+            this.fillRect(0, 0, width, height);
+            this._context.globalAlpha = 1;
+        }
+
+        const { chars, colors, cols, opaque } = frame;
+        const previousOpaque = this._previousOpaque;
+        this._previousChars = chars.slice();
+        this._previousColors = colors.slice();
+
+        for (let index = 0; index < chars.length; index++) {
+            const col = index % cols;
+            const row = Math.floor(index / cols);
+
+            // Opaque cells are not left to fade, so that what was drawn in them before leaves no ghost.
+            if (!clear && (opaque[index] || previousOpaque[index]))
+                this.clearCell(col, row);
+
+            if (chars[index] !== '')
+                this.drawCell(chars[index], colors[index], col, row);
+        }
+    }
+
+    private renderChanged(frame: CellBuffer): void {
+        const { chars, colors, cols } = frame;
+        const previousChars = this._previousChars;
+        const previousColors = this._previousColors;
+
+        for (let index = 0; index < chars.length; index++) {
+            const char = chars[index];
+            const color = colors[index];
+
+            if (char === previousChars[index] && (char === '' || color === previousColors[index]))
+                continue;
+
+            previousChars[index] = char;
+            previousColors[index] = color;
+
+            const col = index % cols;
+            const row = Math.floor(index / cols);
+            this.clearCell(col, row);
+
+            if (char !== '')
+                this.drawCell(char, color, col, row);
+        }
+    }
+
+    private clearCell(col: number, row: number): void {
+        const { cellWidth, cellHeight, backgroundColor } = this._settings;
+        const x = Math.floor(col * cellWidth);
+        const y = Math.floor(row * cellHeight);
+        this.setFillStyle(backgroundColor);
+        this.fillRect(x, y, Math.floor((col + 1) * cellWidth) - x, Math.floor((row + 1) * cellHeight) - y);
+    }
+
+    private drawCell(char: string, color: string, col: number, row: number): void {
+        const { cellWidth, cellHeight } = this._settings;
+        const atlas = this._atlas;
+        this.stats.cellsDrawn++;
+        this.stats.drawCalls++;
+
+        if (atlas) {
+            const slot = atlas.get(char, color);
+            const x = Math.floor(col * cellWidth);
+            const y = Math.floor(row * cellHeight);
+            const { slotWidth, slotHeight } = atlas;
+            this._context.drawImage(atlas.canvas, slot.x, slot.y, slotWidth, slotHeight, x, y, slotWidth, slotHeight);
+            return;
+        }
+
+        this.setFillStyle(color);
+        this._context.fillText(char, col * cellWidth, row * cellHeight);
+    }
+
+    private setFillStyle(style: string): void {
+        if (style === this._fillStyle)
+            return;
+
+        this._context.fillStyle = style;
+        this._fillStyle = style;
+    }
+
+    private fillRect(x: number, y: number, width: number, height: number): void {
+        this.stats.drawCalls++;
+        this._context.fillRect(x, y, width, height);
+    }
+}
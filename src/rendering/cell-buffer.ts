@@ -0,0 +1,74 @@
+/**
+ * A color filled over the whole previous frame.
+ */
+export interface Fill {
+    color: string;
+    /** Opacity the color is filled with, 0-1. */
+    opacity: number;
+}
+
+/**
+ * Characters and colors of every grid cell in a frame, stored row by row.
+ * An empty string marks a cell with nothing drawn in it.
+ */
+export class CellBuffer {
+    private _cols: number = 0;
+    private _rows: number = 0;
+    public chars: string[] = [];
+    public colors: string[] = [];
+    /** Pattern value of every cell, 0-1, which decides how layers are blended. */
+    public values: number[] = [];
+    /** Colors filled over the previous frame before the cells are drawn, e.g. to fade it out. */
+    public fills: Fill[] = [];
+    /**
+     * Cells painted afresh over the background when the frame has fills rather than drawn over the
+     * faded previous frame, e.g. of layers that do not fade, which would otherwise leave ghosts behind.
+     */
+    public opaque: boolean[] = [];
+
+    get cols(): number {
+        return this._cols;
+    }
+
+    get rows(): number {
+        return this._rows;
+    }
+
+    resize(cols: number, rows: number): void {
+        cols = Math.max(0, cols);
+        rows = Math.max(0, rows);
+
+        if (cols === this._cols && rows === this._rows)
+            return;
+
+        this._cols = cols;
+        this._rows = rows;
+        this.chars = new Array<string>(cols * rows).fill('');
+        this.colors = new Array<string>(cols * rows).fill('');
+        this.values = new Array<number>(cols * rows).fill(0);
+        this.fills = [];
+        this.opaque = new Array<boolean>(cols * rows).fill(false);
+    }
+
+    clear(): void {
+        this.chars.fill('');
+        this.colors.fill('');
+        this.values.fill(0);
+        this.fills.length = 0;
+        this.opaque.fill(false);
+    }
+
+    /**
+     * Set the content of a cell. Cells outside of the grid are ignored.
+     * Glyphs drawn by stateful patterns have the full value of 1.
+     */
+    set(col: number, row: number, char: string, color: string, value: number = 1): void {
+        if (col < 0 || row < 0 || col >= this._cols || row >= this._rows)
+            return;
+
+        const index = row * this._cols + col;
+        this.chars[index] = char;
+        this.colors[index] = color;
+        this.values[index] = value;
+    }
+}
@@ -0,0 +1,111 @@
+import { ColorMixer } from '../color';
+import type { CellBuffer } from './cell-buffer';
+
+/**
+ * How a layer is combined with the layers beneath it:
+ * `add` sums the pattern values, `multiply` scales the values beneath by the layer,
+ * `max` keeps the larger value and `mask` only keeps cells beneath where the layer is dense enough.
+ */
+export type BlendMode = 'add' | 'multiply' | 'max' | 'mask';
+
+export interface CompositeLayer {
+    frame: CellBuffer;
+    /** Characters that values of the layer map onto, or null for stateful patterns, which draw glyphs themselves. */
+    characters: readonly string[] | null;
+    opacity: number;
+    blend: BlendMode;
+}
+
+/**
+ * Blends the frames of stacked pattern layers cell by cell. Values are combined first and the
+ * character is looked up again in the characters of the layer that contributes most to a cell,
+ * while glyphs of stateful patterns are kept as they are.
+ */
+export class Compositor {
+    private _characters: Array<readonly string[] | null> = [];
+    private _colors = new ColorMixer();
+    private _backgroundColor: string = '#000000';
+
+    /**
+     * Start compositing onto the given frame, which holds the bottom layer.
+     */
+    begin(frame: CellBuffer, characters: readonly string[] | null, backgroundColor: string): void {
+        this._characters = new Array<readonly string[] | null>(frame.chars.length).fill(characters);
+        this._backgroundColor = backgroundColor;
+
+        const opaque = frame.fills.length === 0;
+
+        for (let index = 0; index < frame.chars.length; index++)
+            frame.opaque[index] = opaque && frame.chars[index] !== '';
+    }
+
+    /**
+     * Blend a layer over the target frame passed to `begin()`.
+     */
+    blend(target: CellBuffer, layer: CompositeLayer): void {
+        const { frame, opacity, blend } = layer;
+        const count = Math.min(target.chars.length, frame.chars.length);
+
+        for (let index = 0; index < count; index++) {
+            const below = Compositor.valueAt(target, this._characters[index], index);
+            const above = opacity * Compositor.valueAt(frame, layer.characters, index);
+            let value: number;
+            let covered = false;
+            let hidden = false;
+
+            switch (blend) {
+                case 'add':
+                    value = below + above;
+                    covered = above > below;
+                    break;
+                case 'max':
+                    value = Math.max(below, above);
+                    covered = above > below;
+                    break;
+                case 'multiply':
+                    value = below * (1 - opacity + above);
+                    break;
+                case 'mask':
+                    hidden = 1 - opacity + above < 0.5;
+                    value = hidden ? 0 : below;
+                    break;
+            }
+
+            value = Math.max(0, Math.min(1, value));
+
+            if (covered) {
+                const color = target.chars[index] === '' ? this._backgroundColor : target.colors[index];
+                target.chars[index] = frame.chars[index];
+                target.colors[index] = this._colors.mix(color, frame.colors[index], opacity);
+                this._characters[index] = layer.characters;
+                target.opaque[index] = frame.fills.length === 0;
+            }
+
+            const characters = this._characters[index];
+            target.values[index] = value;
+
+            // Cells hidden by a mask, or stateful glyphs that lost all of their value, are cleared.
+            if (hidden || (!characters && value === 0))
+                target.chars[index] = '';
+            else if (characters && characters.length > 0 && target.chars[index] !== '')
+                target.chars[index] = Compositor.lookup(characters, value);
+        }
+
+        // Fills of a layer cover the whole frame, but cells of layers without fills are opaque and painted afresh.
+        target.fills.push(...frame.fills);
+    }
+
+    /**
+     * Value of a cell, where glyphs of stateful patterns count fully and empty cells not at all.
+     */
+    private static valueAt(frame: CellBuffer, characters: readonly string[] | null, index: number): number {
+        if (frame.chars[index] === '')
+            return 0;
+
+        return characters ? frame.values[index] : 1;
+    }
+
+    private static lookup(characters: readonly string[], value: number): string {
+        return characters[Math.min(Math.floor(value * characters.length), characters.length - 1)];
+    }
+}
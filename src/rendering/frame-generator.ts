@@ -0,0 +1,460 @@
+import { PointerField } from '../interaction';
+import { Mask } from '../mask';
+import { PerlinNoise } from '../noise/perlin';
+import { createRandom, type RandomSource } from '../noise/random';
+import { resolveOptions, type ASCIIGroundOptions, type LayerOptions, type ResolvedOptions } from '../options';
+import { createColorMap, type ColorMap } from '../palette';
+import {
+    getPattern,
+    isStatefulPattern,
+    type NoiseFunction,
+    type PatternContext,
+    type PatternDefinition,
+    type PatternSurface
+} from '../patterns';
+import { MAX_CATCH_UP_TIME } from '../patterns/stepper';
+import { CellBuffer } from './cell-buffer';
+import { Compositor } from './compositor';
+
+interface Layer {
+    options: LayerOptions;
+    generator: FrameGenerator;
+}
+
+/**
+ * Options of the instance that layers do not inherit.
+ */
+const UNINHERITED_OPTIONS = new Set<string>(['layers', 'mask', 'interaction', 'opacity', 'blend']);
+
+/**
+ * Options that patterns only read when they start, e.g. to size or seed their state,
+ * so that changing them starts the pattern over. Other options apply to the running pattern.
+ */
+export const RESTARTING_OPTIONS = new Set<string>([
+    'pattern',
+    'seed',
+    'direction',
+    'lifeDensity',
+    'japanRain',
+    'image'
+]);
+
+/**
+ * Animation time stateful patterns are moved on by at a time while seeking. Patterns on a `FixedStepper`
+ * end up in the same state however the time is split, so it is well within the time a stepper catches up on.
+ */
+const SEEK_STEP = MAX_CATCH_UP_TIME / 2;
+
+/**
+ * Runs a pattern on a character grid and produces its frames as cell buffers,
+ * without drawing anything. Outputs such as the canvas renderer build on it.
+ */
+export class FrameGenerator {
+    private _options: ResolvedOptions;
+    private _perlin!: PerlinNoise;
+    private _random!: RandomSource;
+    private _pattern: PatternDefinition;
+    private _patternState: unknown = null;
+    private _patternStale: boolean = true;
+    private _gridChanged: boolean = false;
+    private _interaction: PointerField | null = null;
+    private _colorMap: ColorMap | null = null;
+    private _mask: Mask | null = null;
+    private _maskStale: boolean = true;
+    private _cellAspect: number = 1;
+    private _previousTime: number | null = null;
+    private _frame: CellBuffer = new CellBuffer();
+    private _layers: Layer[] = [];
+    private _compositor: Compositor | null = null;
+
+    constructor(options: ResolvedOptions, cols: number = 0, rows: number = 0) {
+        this._options = options;
+        this._pattern = getPattern(options.pattern);
+        this._frame.resize(cols, rows);
+        this.seedRandomness();
+        this.configureInteraction();
+        this.configurePalette();
+        this.configureLayers();
+    }
+
+    get options(): ResolvedOptions {
+        return this._options;
+    }
+
+    get cols(): number {
+        return this._frame.cols;
+    }
+
+    get rows(): number {
+        return this._frame.rows;
+    }
+
+    /**
+     * Width of a grid cell divided by its height.
+     */
+    get cellAspect(): number {
+        return this._cellAspect;
+    }
+
+    /**
+     * The last computed frame.
+     */
+    get frame(): CellBuffer {
+        return this._frame;
+    }
+
+    /**
+     * Pointer field of the `interaction` option, or null when it is disabled.
+     */
+    get interaction(): PointerField | null {
+        return this._interaction;
+    }
+
+    private seedRandomness(): void {
+        const { seed } = this._options;
+        this._perlin = new PerlinNoise(seed ?? 0);
+        this._random = seed === undefined ? Math.random : createRandom(seed);
+    }
+
+    private configureInteraction(): void {
+        const { interaction } = this._options;
+
+        if (!interaction)
+            this._interaction = null;
+        else if (this._interaction)
+            this._interaction.setOptions(interaction);
+        else
+            this._interaction = new PointerField(interaction);
+
+        // Layers react to the pointer of the instance they belong to.
+        for (const { generator } of this._layers)
+            generator._interaction = this._interaction;
+    }
+
+    private configurePalette(): void {
+        const { palette } = this._options;
+        this._colorMap = palette ? createColorMap(palette) : null;
+    }
+
+    private configureLayers(): void {
+        const { layers = [] } = this._options;
+        this._layers = layers.map((options, index) => ({ options, generator: this.createLayer(options, index) }));
+        this._compositor = this._layers.length > 0 ? new Compositor() : null;
+    }
+
+    /**
+     * Seed of a layer that has none of its own, so that layers of a seeded instance
+     * are deterministic without all of them sharing the same noise.
+     */
+    private layerSeed(index: number): number | undefined {
+        const { seed } = this._options;
+        return seed === undefined ? undefined : seed + index + 1;
+    }
+
+    private createLayer(layer: LayerOptions, index: number): FrameGenerator {
+        const inherited = Object.fromEntries(
+            Object.entries(this._options).filter(([key]) => !UNINHERITED_OPTIONS.has(key))
+        ) as ResolvedOptions;
+
+        const options = resolveOptions({ ...inherited, seed: this.layerSeed(index), ...layer });
+        const generator = new FrameGenerator(options, this.cols, this.rows);
+        generator._cellAspect = this._cellAspect;
+        generator._interaction = this._interaction;
+        return generator;
+    }
+
+    /**
+     * Pass options changed on the instance down to the layers that inherit them.
+     */
+    private updateLayers(newOptions: Partial<ASCIIGroundOptions>): void {
+        this._layers.forEach(({ options, generator }, index) => {
+            const inherited: Partial<ASCIIGroundOptions> = Object.fromEntries(
+                Object.entries(newOptions).filter(([key]) => !UNINHERITED_OPTIONS.has(key) && !(key in options))
+            );
+
+            if ('seed' in inherited)
+                inherited.seed = this.layerSeed(index);
+
+            if (Object.keys(inherited).length > 0)
+                generator.updateOptions(inherited);
+        });
+    }
+
+    /**
+     * Merge new options in, starting the pattern over when one of the `RESTARTING_OPTIONS` changed.
+     */
+    updateOptions(newOptions: Partial<ASCIIGroundOptions>): void {
+        const previous = this._options;
+        this._options = { ...this._options, ...newOptions };
+        this._pattern = getPattern(this._options.pattern);
+
+        if ('seed' in newOptions)
+            this.seedRandomness();
+
+        if ('interaction' in newOptions)
+            this.configureInteraction();
+
+        if ('palette' in newOptions)
+            this.configurePalette();
+
+        if ('mask' in newOptions)
+            this._maskStale = true;
+
+        if ('layers' in newOptions)
+            this.configureLayers();
+        else
+            this.updateLayers(newOptions);
+
+        const restarts = Object.entries(newOptions).some(
+            ([key, value]) => RESTARTING_OPTIONS.has(key) && value !== previous[key as keyof ResolvedOptions]
+        );
+
+        if (restarts)
+            this._patternStale = true;
+    }
+
+    /**
+     * Change the grid size, and optionally the proportions of its cells. Stateful patterns carry
+     * their state over through their `resize` hook, or start over on the new grid without one.
+     */
+    resize(cols: number, rows: number, cellAspect: number = this._cellAspect): void {
+        if (cols !== this.cols || rows !== this.rows || cellAspect !== this._cellAspect)
+            this._maskStale = true;
+
+        if (cols !== this.cols || rows !== this.rows)
+            this._gridChanged = true;
+
+        this._frame.resize(cols, rows);
+        this._cellAspect = cellAspect;
+
+        for (const { generator } of this._layers)
+            generator.resize(cols, rows, cellAspect);
+    }
+
+    /**
+     * Rasterize the `mask` option onto the grid when it or the grid has changed.
+     */
+    private updateMask(): Mask | null {
+        if (this._maskStale) {
+            const { mask } = this._options;
+            this._mask = mask ? new Mask(mask, this.cols, this.rows, this._cellAspect) : null;
+            this._maskStale = false;
+        }
+
+        return this._mask;
+    }
+
+    /**
+     * Restart the pattern, discarding the state of stateful patterns.
+     * The pattern is initialized again when the next frame is computed.
+     */
+    reset(): void {
+        this._patternStale = true;
+
+        for (const { generator } of this._layers)
+            generator.reset();
+    }
+
+    private createSurface(): PatternSurface {
+        return {
+            cols: this.cols,
+            rows: this.rows,
+
+            drawChar: (char: string, col: number, row: number, color?: string) => {
+                this._frame.set(col, row, char, color ?? this._options.color);
+            },
+
+            fill: (color: string, opacity: number = 1) => {
+                this._frame.fills.push({ color, opacity });
+            },
+        };
+    }
+
+    private createPatternContext(deltaTime: number, animationTime: number): PatternContext {
+        return {
+            options: this._options,
+            cols: this.cols,
+            rows: this.rows,
+            cellAspect: this._cellAspect,
+            deltaTime,
+            perlin: this._perlin,
+            random: this._random,
+            colorMap: this.cycleColorMap(animationTime),
+        };
+    }
+
+    /**
+     * The palette shifted along the pattern values by `paletteCycle`. It runs back and forth
+     * rather than wrapping around, so that gradients stay smooth.
+     */
+    private cycleColorMap(animationTime: number): ColorMap | null {
+        const colorMap = this._colorMap;
+        const shift = animationTime * (this._options.paletteCycle ?? 0);
+
+        if (!colorMap || shift === 0)
+            return colorMap;
+
+        return (value, col, row, cols, rows) => {
+            const position = (((value + shift) % 2) + 2) % 2;
+            return colorMap(position > 1 ? 2 - position : position, col, row, cols, rows);
+        };
+    }
+
+    /**
+     * Compute the frame at the given animation time, i.e. elapsed seconds scaled by `speed`.
+     * `now` is the current `performance.now()` timestamp, used to age pointer effects.
+     */
+    compute(animationTime: number, now: number = performance.now()): CellBuffer {
+        const frame = this._frame;
+        const pattern = this._pattern;
+        const patternContext = this.advanceState(animationTime);
+        const mask = this.updateMask();
+        frame.clear();
+
+        if (isStatefulPattern(pattern)) {
+            pattern.render(this._patternState, this.createSurface(), patternContext);
+            mask?.applyToFrame(frame);
+        } else 
+            this.computeNoise(pattern, patternContext, animationTime, now, mask);
+        
+
+        this.compositeLayers(animationTime, now);
+        return frame;
+    }
+
+    /**
+     * Move the state of a stateful pattern on to the given animation time, returning the context it was moved with.
+     */
+    private advanceState(animationTime: number): PatternContext {
+        const pattern = this._pattern;
+        // Time running backwards, e.g. when the animation restarts, does not move the pattern.
+        const deltaTime = this._previousTime === null ? 0 : Math.max(0, animationTime - this._previousTime);
+        const patternContext = this.createPatternContext(deltaTime, animationTime);
+        this._previousTime = animationTime;
+        this.prepareState(pattern, patternContext);
+
+        if (isStatefulPattern(pattern))
+            pattern.update(this._patternState, patternContext, animationTime);
+
+        return patternContext;
+    }
+
+    /**
+     * Move the pattern to the given animation time without computing a frame. Stateful patterns are
+     * simulated up to it, starting over with the same randomness for times before the current one,
+     * so that the next frame matches the one rendered after playing up to that time. This takes as long
+     * as running every simulation step on the way, so it grows with the time that is skipped.
+     */
+    seek(animationTime: number): void {
+        if (this._previousTime !== null && animationTime < this._previousTime)
+            this.restart();
+
+        if (isStatefulPattern(this._pattern)) {
+            const start = this._previousTime === null ? 0 : this._previousTime + SEEK_STEP;
+
+            for (let time = start; time < animationTime; time += SEEK_STEP)
+                this.advanceState(time);
+        }
+
+        this.advanceState(animationTime);
+
+        for (const { generator } of this._layers)
+            generator.seek(this.layerTime(generator, animationTime));
+    }
+
+    /**
+     * Start the pattern over from a time of 0 with the randomness it started out with.
+     * The pattern is initialized again when the next frame is computed.
+     */
+    restart(): void {
+        this.seedRandomness();
+        this._patternStale = true;
+        this._previousTime = null;
+
+        for (const { generator } of this._layers)
+            generator.restart();
+    }
+
+    /**
+     * Create the state of a stateful pattern, or carry it over to a grid of a new size.
+     */
+    private prepareState(pattern: PatternDefinition, context: PatternContext): void {
+        if (!this._patternStale && !this._gridChanged)
+            return;
+
+        if (!isStatefulPattern(pattern))
+            this._patternState = null;
+        else if (!this._patternStale && pattern.resize)
+            this._patternState = pattern.resize(this._patternState, context);
+        else
+            this._patternState = pattern.init(context);
+
+        this._patternStale = false;
+        this._gridChanged = false;
+    }
+
+    private computeNoise(
+        pattern: NoiseFunction,
+        patternContext: PatternContext,
+        animationTime: number,
+        now: number,
+        mask: Mask | null
+    ): void {
+        const frame = this._frame;
+        const noiseFunction = this._interaction ? this._interaction.wrap(pattern, now) : pattern;
+        const { characters, color } = this._options;
+        const { colorMap } = patternContext;
+        const { cols, rows } = frame;
+
+        for (let row = 0; row < rows; row++) {
+            for (let col = 0; col < cols; col++) {
+                const noiseValue = noiseFunction(col, row, animationTime, patternContext);
+                const index = row * cols + col;
+                // Map noise value (-1 to 1) to character index.
+                let normalizedValue = (noiseValue + 1) / 2;
+
+                if (mask)
+                    normalizedValue = mask.adjustValue(normalizedValue, index);
+
+                const charIndex = Math.floor(normalizedValue * characters.length);
+                const clampedIndex = Math.max(0, Math.min(charIndex, characters.length - 1));
+                const char = characters[clampedIndex] ?? '';
+                const cellColor = colorMap ? colorMap(normalizedValue, col, row, cols, rows) : color;
+                const cellValue = Math.max(0, Math.min(1, normalizedValue));
+                frame.set(col, row, char, mask ? mask.adjustColor(cellColor, index) : cellColor, cellValue);
+            }
+        }
+    }
+
+    /**
+     * Layers with a speed of their own run on a timeline scaled relative to the instance.
+     */
+    private layerTime(generator: FrameGenerator, animationTime: number): number {
+        const { speed } = this._options;
+        return speed === 0 ? 0 : animationTime * (generator.options.speed / speed);
+    }
+
+    /**
+     * Compute the frames of the `layers` and blend them over the frame of this pattern, from bottom to top.
+     */
+    private compositeLayers(animationTime: number, now: number): void {
+        const compositor = this._compositor;
+
+        if (!compositor)
+            return;
+
+        const { characters, backgroundColor } = this._options;
+        compositor.begin(this._frame, isStatefulPattern(this._pattern) ? null : characters, backgroundColor);
+
+        for (const { options, generator } of this._layers) {
+            const frame = generator.compute(this.layerTime(generator, animationTime), now);
+
+            compositor.blend(this._frame, {
+                frame,
+                characters: isStatefulPattern(generator._pattern) ? null : generator.options.characters,
+                opacity: options.opacity ?? 1,
+                blend: options.blend ?? 'max',
+            });
+        }
+    }
+}
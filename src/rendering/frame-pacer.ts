@@ -0,0 +1,152 @@
+export interface AdaptiveQualityOptions {
+    /** What is given up while frames take longer to render than their budget. Defaults to `frameRate`. */
+    reduce?: 'frameRate' | 'cellSize'
+    /** Lowest frame rate to go down to. Defaults to 15. */
+    minFps?: number
+    /** Largest factor to grow cells by. Defaults to 2. */
+    maxCellScale?: number
+}
+
+/** Frame rate budgeted for when `maxFps` is not set. */
+const DEFAULT_FPS = 60;
+
+/** Share of the frame interval that a frame may arrive early, to absorb timer jitter. */
+const FRAME_TOLERANCE = 0.1;
+
+/** Number of frames whose render times are averaged before quality is adjusted. */
+const SAMPLE_FRAMES = 30;
+
+/** Number of consecutive samples well within budget before quality is raised again. */
+const RECOVERY_SAMPLES = 4;
+
+/** Factor that cells grow by per step. */
+const CELL_SCALE_STEP = 1.25;
+
+/**
+ * Decides which animation frames are rendered, capping the frame rate at `maxFps`.
+ * With adaptive quality, it also tracks render times and lowers the frame rate or enlarges
+ * cells while frames are consistently over budget, raising quality again once they are not.
+ */
+export class FramePacer {
+    private _maxFps: number = Infinity;
+    private _adaptive: Required<AdaptiveQualityOptions> | null = null;
+    private _fps: number = Infinity;
+    private _cellSteps: number = 0;
+    private _lastFrame: number | null = null;
+    private _samples: number[] = [];
+    private _goodSamples: number = 0;
+
+    constructor(maxFps?: number, adaptive?: boolean | AdaptiveQualityOptions) {
+        this.configure(maxFps, adaptive);
+    }
+
+    /**
+     * Current cap of the frame rate, infinite when every frame is rendered.
+     */
+    get fps(): number {
+        return this._fps;
+    }
+
+    /**
+     * Factor that cells are enlarged by to save render time.
+     */
+    get cellScale(): number {
+        if (this._cellSteps === 0)
+            return 1;
+
+        return Math.min(this._adaptive?.maxCellScale ?? 1, CELL_SCALE_STEP ** this._cellSteps);
+    }
+
+    configure(maxFps?: number, adaptive?: boolean | AdaptiveQualityOptions): void {
+        this._maxFps = maxFps && maxFps > 0 ? maxFps : Infinity;
+        this._adaptive = adaptive
+            ? { reduce: 'frameRate', minFps: 15, maxCellScale: 2, ...(adaptive === true ? {} : adaptive) }
+            : null;
+
+        this._fps = this._maxFps;
+        this._cellSteps = 0;
+        this.reset();
+    }
+
+    /**
+     * Forget the previous frame and the render times measured so far, e.g. after a pause.
+     */
+    reset(): void {
+        this._lastFrame = null;
+        this._samples = [];
+        this._goodSamples = 0;
+    }
+
+    /**
+     * Whether the animation frame at the given time should be rendered.
+     */
+    shouldRender(time: number): boolean {
+        if (this._lastFrame === null || this._fps === Infinity) {
+            this._lastFrame = time;
+            return true;
+        }
+
+        const interval = 1000 / this._fps;
+        const elapsed = time - this._lastFrame;
+
+        if (elapsed < interval * (1 - FRAME_TOLERANCE))
+            return false;
+
+        // Stay on the frame grid unless frames were missed altogether.
+        this._lastFrame = elapsed > interval * 2 ? time : this._lastFrame + interval;
+        return true;
+    }
+
+    /**
+     * Record how long a frame took to render, in milliseconds.
+     * Returns true when the cell scale changed, in which case the grid has to be rebuilt.
+     */
+    record(duration: number): boolean {
+        const adaptive = this._adaptive;
+
+        if (!adaptive)
+            return false;
+
+        this._samples.push(duration);
+
+        if (this._samples.length < SAMPLE_FRAMES)
+            return false;
+
+        const average = this._samples.reduce((sum, sample) => sum + sample, 0) / this._samples.length;
+        const budget = 1000 / (this._fps === Infinity ? DEFAULT_FPS : this._fps);
+        const cellScale = this.cellScale;
+        this._samples = [];
+
+        if (average > budget)
+            this.lowerQuality(adaptive);
+        else if (average < budget / 2 && this._goodSamples + 1 >= RECOVERY_SAMPLES)
+            this.raiseQuality(adaptive);
+
+        // Quality is only raised again after several samples in a row that were well within budget.
+        this._goodSamples = average < budget / 2 ? (this._goodSamples + 1) % RECOVERY_SAMPLES : 0;
+
+        return cellScale !== this.cellScale;
+    }
+
+    private lowerQuality({ reduce, minFps, maxCellScale }: Required<AdaptiveQualityOptions>): void {
+        if (reduce === 'cellSize') {
+            if (this.cellScale < maxCellScale)
+                this._cellSteps++;
+
+            return;
+        }
+
+        const fps = this._fps === Infinity ? DEFAULT_FPS : this._fps;
+        this._fps = Math.max(minFps, fps / 2);
+    }
+
+    private raiseQuality({ reduce }: Required<AdaptiveQualityOptions>): void {
+        if (reduce === 'cellSize') {
+            this._cellSteps = Math.max(0, this._cellSteps - 1);
+            return;
+        }
+
+        const ceiling = this._maxFps === Infinity ? DEFAULT_FPS : this._maxFps;
+        this._fps = this._fps * 2 >= ceiling ? this._maxFps : this._fps * 2;
+    }
+}
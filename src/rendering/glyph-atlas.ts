@@ -0,0 +1,140 @@
+export type RenderingContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface GlyphSlot {
+    x: number;
+    y: number;
+}
+
+/** Maximum width and height of the atlas canvas, in pixels. */
+const ATLAS_SIZE = 2048;
+
+/**
+ * Create a canvas that is not attached to the document, preferring OffscreenCanvas where available.
+ */
+export function createScratchCanvas(width: number, height: number): OffscreenCanvas | HTMLCanvasElement | null {
+    if (typeof OffscreenCanvas !== 'undefined')
+        return new OffscreenCanvas(width, height);
+
+    if (typeof document === 'undefined')
+        return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+}
+
+/**
+ * Cache of pre-rasterized characters, one slot per character and color, so that
+ * cells can be blitted with `drawImage` instead of being laid out with `fillText`.
+ * When the atlas runs out of slots it is cleared and refilled on demand.
+ */
+export class GlyphAtlas {
+    private _canvas: OffscreenCanvas | HTMLCanvasElement;
+    private _context: RenderingContext2D;
+    private _slots = new Map<string, GlyphSlot>();
+    private _slotWidth: number;
+    private _slotHeight: number;
+    private _columns: number;
+    private _capacity: number;
+    private _font: string;
+
+    /**
+     * Create an atlas for the given font and cell size, or return null when no canvas is available.
+     */
+    static create(font: string, cellWidth: number, cellHeight: number): GlyphAtlas | null {
+        const slotWidth = Math.max(1, Math.ceil(cellWidth));
+        const slotHeight = Math.max(1, Math.ceil(cellHeight));
+        const columns = Math.max(1, Math.floor(ATLAS_SIZE / slotWidth));
+        const rows = Math.max(1, Math.floor(ATLAS_SIZE / slotHeight));
+        const canvas = createScratchCanvas(columns * slotWidth, rows * slotHeight);
+        const context = canvas?.getContext('2d') as RenderingContext2D | null | undefined;
+
+        if (!canvas || !context)
+            return null;
+
+        return new GlyphAtlas(canvas, context, font, slotWidth, slotHeight, columns, columns * rows);
+    }
+
+    private constructor(
+        canvas: OffscreenCanvas | HTMLCanvasElement,
+        context: RenderingContext2D,
+        font: string,
+        slotWidth: number,
+        slotHeight: number,
+        columns: number,
+        capacity: number
+    ) {
+        this._canvas = canvas;
+        this._context = context;
+        this._font = font;
+        this._slotWidth = slotWidth;
+        this._slotHeight = slotHeight;
+        this._columns = columns;
+        this._capacity = capacity;
+    }
+
+    get canvas(): CanvasImageSource {
+        return this._canvas;
+    }
+
+    get slotWidth(): number {
+        return this._slotWidth;
+    }
+
+    get slotHeight(): number {
+        return this._slotHeight;
+    }
+
+    get size(): number {
+        return this._slots.size;
+    }
+
+    /**
+     * Whether the atlas was built for the given font and cell size.
+     */
+    matches(font: string, cellWidth: number, cellHeight: number): boolean {
+        return this._font === font
+            && this._slotWidth === Math.max(1, Math.ceil(cellWidth))
+            && this._slotHeight === Math.max(1, Math.ceil(cellHeight));
+    }
+
+    /**
+     * Get the slot of a character in the given color, rasterizing it on first use.
+     */
+    get(char: string, color: string): GlyphSlot {
+        const key = color + '\u0000' + char;
+        let slot = this._slots.get(key);
+
+        if (slot)
+            return slot;
+
+        if (this._slots.size >= this._capacity)
+            this.clear();
+
+        const index = this._slots.size;
+
+        slot = {
+            x: (index % this._columns) * this._slotWidth,
+            y: Math.floor(index / this._columns) * this._slotHeight,
+        };
+
+        // Clip to the slot, so that overhanging glyphs do not bleed into their neighbours.
+        this._context.save();
+        this._context.beginPath();
+        this._context.rect(slot.x, slot.y, this._slotWidth, this._slotHeight);
+        this._context.clip();
+        this._context.font = this._font;
+        this._context.textBaseline = 'top';
+        this._context.fillStyle = color;
+        this._context.fillText(char, slot.x, slot.y);
+        this._context.restore();
+        this._slots.set(key, slot);
+        return slot;
+    }
+
+    clear(): void {
+        this._slots.clear();
+        this._context.clearRect(0, 0, this._canvas.width, this._canvas.height);
+    }
+}
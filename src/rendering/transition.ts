@@ -0,0 +1,253 @@
+import { ColorMixer } from '../color';
+import { createRandom } from '../noise/random';
+import type { ASCIIGroundOptions, ResolvedOptions } from '../options';
+import { CellBuffer } from './cell-buffer';
+import { RESTARTING_OPTIONS, type FrameGenerator } from './frame-generator';
+
+export type TransitionType = 'crossfade' | 'wipe' | 'dissolve';
+
+export type EasingName = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export interface TransitionOptions {
+    /** Length of the transition in milliseconds. */
+    duration: number
+    /** Easing curve, either by name or as a function mapping 0-1 onto 0-1. Defaults to `ease-in-out`. */
+    easing?: EasingName | ((t: number) => number)
+    /** How the previous pattern gives way to the new one. Defaults to `crossfade`. */
+    type?: TransitionType
+    /** Direction a wipe moves in. Defaults to `right`. */
+    direction?: 'left' | 'right' | 'up' | 'down'
+}
+
+export interface UpdateSettings {
+    /** Animate the change instead of applying it at once. Only used while the animation is running. */
+    transition?: TransitionOptions
+}
+
+const EASINGS: Record<EasingName, (t: number) => number> = {
+    'linear': (t) => t,
+    'ease-in': (t) => t * t * t,
+    'ease-out': (t) => 1 - (1 - t) ** 3,
+    'ease-in-out': (t) => t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2,
+};
+
+/**
+ * Numbers that change the grid rather than a continuous quantity. Numbers that patterns only read
+ * when they start, such as `lifeDensity`, are not tweened either, as the running pattern ignores them.
+ */
+const UNTWEENED_OPTIONS = new Set<string>(['fontSize', ...RESTARTING_OPTIONS]);
+
+/**
+ * Options of the canvas and the playback rather than the pattern, which are applied at once.
+ */
+const CANVAS_OPTIONS = new Set<string>([
+    'maxFps',
+    'adaptiveQuality',
+    'pauseWhenHidden',
+    'reducedMotion',
+    'glyphAtlas',
+    'dirtyCells'
+]);
+
+const COLOR_OPTIONS = new Set<string>(['color', 'backgroundColor']);
+
+/**
+ * Split changed options into the ones that can be interpolated, i.e. numbers and colors, the ones
+ * of the canvas that are applied at once, and the ones that need a new pattern instance to be shown.
+ */
+export function splitTweenedOptions(
+    current: ResolvedOptions,
+    newOptions: Partial<ASCIIGroundOptions>
+): { tweened: Partial<ASCIIGroundOptions>, immediate: Partial<ASCIIGroundOptions>, rest: Partial<ASCIIGroundOptions> } {
+    const colors = new ColorMixer();
+    const tweened: Record<string, unknown> = {};
+    const immediate: Record<string, unknown> = {};
+    const rest: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(newOptions)) {
+        const from: unknown = current[key as keyof ResolvedOptions];
+
+        if (value === from)
+            continue;
+
+        const isNumber = typeof from === 'number' && typeof value === 'number'
+            && Number.isFinite(from) && Number.isFinite(value) && !UNTWEENED_OPTIONS.has(key);
+
+        const isColor = COLOR_OPTIONS.has(key) && typeof from === 'string' && typeof value === 'string'
+            && colors.parse(from) !== null && colors.parse(value) !== null;
+
+        if (CANVAS_OPTIONS.has(key))
+            immediate[key] = value;
+        else if (isNumber || isColor)
+            tweened[key] = value;
+        else
+            rest[key] = value;
+    }
+
+    return { tweened, immediate, rest } as ReturnType<typeof splitTweenedOptions>;
+}
+
+/**
+ * A change of options playing out over time: numbers and colors are interpolated on the running
+ * pattern, while a pattern that had to be replaced is blended into its successor cell by cell.
+ */
+export class Transition {
+    private _options: TransitionOptions;
+    private _startTime: number;
+    private _from: Partial<ASCIIGroundOptions>;
+    private _to: Partial<ASCIIGroundOptions>;
+    private _outgoing: FrameGenerator | null;
+    private _outgoingTime: number;
+    private _frame: CellBuffer = new CellBuffer();
+    private _colors = new ColorMixer();
+    private _thresholds: Float32Array = new Float32Array(0);
+
+    /**
+     * @param current Options the tweened options start from.
+     * @param tweened Target values of the options that are interpolated.
+     * @param outgoing Pattern being replaced, along with its animation time, or null when only tweening.
+     */
+    constructor(
+        options: TransitionOptions,
+        startTime: number,
+        current: ResolvedOptions,
+        tweened: Partial<ASCIIGroundOptions>,
+        outgoing: { generator: FrameGenerator, time: number } | null = null
+    ) {
+        this._options = options;
+        this._startTime = startTime;
+        this._to = tweened;
+        this._from = Object.fromEntries(
+            Object.keys(tweened).map((key) => [key, current[key as keyof ResolvedOptions]])
+        );
+        this._outgoing = outgoing?.generator ?? null;
+        this._outgoingTime = outgoing?.time ?? 0;
+    }
+
+    /**
+     * The pattern being replaced, if any.
+     */
+    get outgoing(): FrameGenerator | null {
+        return this._outgoing;
+    }
+
+    /**
+     * Eased progress of the transition at the given time, 0-1.
+     */
+    progress(time: number): number {
+        const { duration, easing = 'ease-in-out' } = this._options;
+        const t = Math.max(0, Math.min(1, duration > 0 ? (time - this._startTime) / duration : 1));
+        return typeof easing === 'function' ? easing(t) : EASINGS[easing](t);
+    }
+
+    /**
+     * Values of the tweened options at the given progress.
+     */
+    tweenedOptions(progress: number): Partial<ASCIIGroundOptions> {
+        if (progress >= 1)
+            return this._to;
+
+        const values: Record<string, unknown> = {};
+
+        for (const [key, to] of Object.entries(this._to)) {
+            const from: unknown = this._from[key as keyof ASCIIGroundOptions];
+
+            if (typeof from === 'number' && typeof to === 'number')
+                values[key] = from + (to - from) * progress;
+            else if (typeof from === 'string' && typeof to === 'string')
+                values[key] = this._colors.mix(from, to, progress);
+        }
+
+        return values as Partial<ASCIIGroundOptions>;
+    }
+
+    /**
+     * Final values of the tweened options.
+     */
+    finalOptions(): Partial<ASCIIGroundOptions> {
+        return this._to;
+    }
+
+    /**
+     * Advance the outgoing pattern on its own timeline and blend its frame into the incoming one.
+     * `elapsed` is in seconds, `now` is the `performance.now()` timestamp of the frame.
+     */
+    blend(incoming: CellBuffer, progress: number, elapsed: number, now: number, backgroundColor: string): CellBuffer {
+        const outgoing = this._outgoing;
+
+        if (!outgoing)
+            return incoming;
+
+        this._outgoingTime += elapsed * outgoing.options.speed;
+        const previous = outgoing.compute(this._outgoingTime, now);
+        const frame = this._frame;
+        frame.resize(incoming.cols, incoming.rows);
+        frame.clear();
+        frame.fills.push(...(progress < 0.5 ? previous.fills : incoming.fills));
+
+        for (let index = 0; index < incoming.chars.length; index++) {
+            const source = this.showsIncoming(index, incoming, previous, progress) ? incoming : previous;
+            const char = source.chars[index] ?? '';
+
+            if (char === '')
+                continue;
+
+            const color = (this._options.type ?? 'crossfade') === 'crossfade'
+                ? this._colors.mix(
+                    previous.chars[index] ? previous.colors[index] : backgroundColor,
+                    incoming.chars[index] ? incoming.colors[index] : backgroundColor,
+                    progress
+                )
+                : source.colors[index];
+
+            frame.chars[index] = char;
+            frame.colors[index] = color;
+            frame.values[index] = source.values[index];
+            // Cells of a pattern without fills must not fade with the fills of the other one.
+            frame.opaque[index] = source.opaque[index] || source.fills.length === 0;
+        }
+
+        return frame;
+    }
+
+    private showsIncoming(index: number, incoming: CellBuffer, previous: CellBuffer, progress: number): boolean {
+        const { cols, rows } = incoming;
+
+        switch (this._options.type ?? 'crossfade') {
+            case 'crossfade': {
+                // Each cell shows whichever pattern weighs more in it at this point of the fade.
+                const weightIn = progress * (incoming.chars[index] ? incoming.values[index] : 0);
+                const weightOut = (1 - progress) * (previous.chars[index] ? previous.values[index] : 0);
+                return weightIn >= weightOut;
+            }
+            case 'wipe': {
+                const col = index % cols;
+                const row = Math.floor(index / cols);
+
+                const position = {
+                    right: (col + 0.5) / cols,
+                    left: 1 - (col + 0.5) / cols,
+                    down: (row + 0.5) / rows,
+                    up: 1 - (row + 0.5) / rows,
+                }[this._options.direction ?? 'right'];
+
+                return position < progress;
+            }
+            case 'dissolve':
+                return this.threshold(index, cols * rows) < progress;
+        }
+    }
+
+    /**
+     * Progress at which a cell dissolves, in a random order that is kept for the whole transition.
+     */
+    private threshold(index: number, count: number): number {
+        if (this._thresholds.length !== count) {
+            const seed = this._outgoing?.options.seed;
+            const random = seed === undefined ? Math.random : createRandom(seed);
+            this._thresholds = Float32Array.from({ length: count }, () => random());
+        }
+
+        return this._thresholds[index];
+    }
+}
@@ -0,0 +1,19 @@
+/**
+ * Checks of time control arguments, shared by instances rendering on the main thread and in a worker,
+ * so that invalid values are rejected where they are passed in.
+ */
+
+export function assertValidTime(time: number): void {
+    if (!Number.isFinite(time) || time < 0)
+        throw new Error(`Time must be a finite number of at least 0, got ${time}.`);
+}
+
+export function assertValidStep(delta: number): void {
+    if (!Number.isFinite(delta))
+        throw new Error(`Step must be a finite number of seconds, got ${delta}.`);
+}
+
+export function assertValidPlaybackRate(rate: number): void {
+    if (!Number.isFinite(rate) || rate < 0)
+        throw new Error(`Playback rate must be a finite number of at least 0, got ${rate}.`);
+}
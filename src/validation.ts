@@ -0,0 +1,622 @@
+import { parseColor } from './color';
+import type { ASCIIGroundOptions, LayerOptions } from './options';
+import { getPattern, getPatternNames, isStatefulPattern } from './patterns';
+import { parseLifeRule } from './patterns/life';
+
+/**
+ * How invalid options are handled:
+ * `throw` rejects them with an `OptionsValidationError`,
+ * `warn` logs the problems and clamps out of range numbers, falling back to defaults for other invalid values.
+ */
+export type ValidationMode = 'throw' | 'warn';
+
+export interface ValidationIssue {
+    /** Path of the invalid field, e.g. `layers[1].opacity`. */
+    path: string
+    /** What is wrong with it, e.g. `expected a number between 0 and 1, got 5`. */
+    message: string
+}
+
+/**
+ * Thrown for invalid options, listing every problem found rather than only the first one.
+ */
+export class OptionsValidationError extends Error {
+    readonly issues: ValidationIssue[];
+
+    constructor(issues: ValidationIssue[]) {
+        super(`Invalid ASCIIGround options:\n${formatIssues(issues)}`);
+        this.name = 'OptionsValidationError';
+        this.issues = issues;
+    }
+}
+
+export type JSONSchema = { [keyword: string]: unknown };
+
+interface Rule {
+    /** JSON Schema of the values the rule accepts. */
+    schema: JSONSchema;
+    /** What the rule accepts, e.g. `a number between 0 and 1`. */
+    expected: string;
+    /**
+     * Check a value, reporting its problems. Returns the value to use in its place,
+     * which is clamped where possible, or `INVALID` when there is none.
+     */
+    check(value: unknown, path: string, issues: ValidationIssue[]): unknown;
+}
+
+/** Returned by rules for values that cannot be corrected. */
+const INVALID = Symbol('invalid');
+
+/** Characters used in `warn` mode when `characters` is unusable. */
+const FALLBACK_CHARACTERS = [' ', '.', ':', '-', '=', '+', '*', '#', '%', '@'];
+
+/** Options without a default, which have to be set. */
+const REQUIRED_OPTIONS = ['pattern', 'characters', 'speed'] as const;
+
+/** Required options used in `warn` mode when the given ones are unusable. */
+const FALLBACKS: Pick<ASCIIGroundOptions, typeof REQUIRED_OPTIONS[number]> = {
+    pattern: 'perlin',
+    characters: FALLBACK_CHARACTERS,
+    speed: 1,
+};
+
+/** Patterns registered by the library itself, as opposed to custom ones. */
+const BUILT_IN_PATTERNS = new Set(getPatternNames());
+
+function formatIssues(issues: ValidationIssue[]): string {
+    return issues.map(({ path, message }) => `- ${path}: ${message}`).join('\n');
+}
+
+function describeValue(value: unknown): string {
+    if (typeof value === 'string')
+        return JSON.stringify(value);
+
+    if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint')
+        return String(value);
+
+    if (value === null || value === undefined)
+        return String(value);
+
+    if (Array.isArray(value))
+        return 'an array';
+
+    return typeof value === 'function' ? 'a function' : 'an object';
+}
+
+function report(issues: ValidationIssue[], path: string, rule: Pick<Rule, 'expected'>, value: unknown): typeof INVALID {
+    issues.push({ path, message: `expected ${rule.expected}, got ${describeValue(value)}` });
+    return INVALID;
+}
+
+interface NumberRange {
+    min?: number;
+    max?: number;
+    /** Exclusive lower bound, for values that cannot be clamped onto it. */
+    above?: number;
+    integer?: boolean;
+}
+
+function describeRange({ min, max, above, integer }: NumberRange): string {
+    const kind = integer ? 'an integer' : 'a number';
+
+    if (min !== undefined && max !== undefined)
+        return `${kind} between ${min} and ${max}`;
+
+    if (min !== undefined)
+        return `${kind} of at least ${min}`;
+
+    if (above !== undefined)
+        return `${kind} greater than ${above}`;
+
+    return max !== undefined ? `${kind} of at most ${max}` : `a finite ${integer ? 'integer' : 'number'}`;
+}
+
+function number(range: NumberRange = {}): Rule {
+    const { min, max, above, integer } = range;
+
+    const rule: Rule = {
+        schema: {
+            type: integer ? 'integer' : 'number',
+            ...(min !== undefined && { minimum: min }),
+            ...(max !== undefined && { maximum: max }),
+            ...(above !== undefined && { exclusiveMinimum: above }),
+        },
+        expected: describeRange(range),
+        check(value, path, issues) {
+            if (typeof value !== 'number' || !Number.isFinite(value))
+                return report(issues, path, rule, value);
+
+            const clamped = Math.max(min ?? -Infinity, Math.min(max ?? Infinity, integer ? Math.round(value) : value));
+
+            if (above !== undefined && value <= above)
+                return report(issues, path, rule, value);
+
+            if (clamped !== value)
+                report(issues, path, rule, value);
+
+            return clamped;
+        },
+    };
+
+    return rule;
+}
+
+function primitive(type: 'string' | 'boolean'): Rule {
+    const rule: Rule = {
+        schema: { type },
+        expected: `a ${type}`,
+        check: (value, path, issues) => typeof value === type ? value : report(issues, path, rule, value),
+    };
+
+    return rule;
+}
+
+const string = primitive('string');
+const boolean = primitive('boolean');
+
+/** Functions, such as palette callbacks, which JSON cannot hold. */
+const callback: Rule = {
+    schema: {},
+    expected: 'a function',
+    check: (value, path, issues) => typeof value === 'function' ? value : report(issues, path, callback, value),
+};
+
+/** Objects that are passed through as they are, such as image sources. */
+const anyObject: Rule = {
+    schema: { type: 'object' },
+    expected: 'an object',
+    check: (value, path, issues) => typeof value === 'object' && value !== null
+        ? value
+        : report(issues, path, anyObject, value),
+};
+
+function oneOf(values: readonly (string | number | boolean)[]): Rule {
+    const rule: Rule = {
+        schema: values.length === 1 ? { const: values[0] } : { enum: values },
+        expected: values.length === 1
+            ? JSON.stringify(values[0])
+            : `one of ${values.map((value) => JSON.stringify(value)).join(', ')}`,
+        check: (value, path, issues) => values.includes(value as string)
+            ? value
+            : report(issues, path, rule, value),
+    };
+
+    return rule;
+}
+
+/**
+ * A value accepted by any of the rules, checked against the first one whose type it has.
+ */
+function anyOf(...rules: Rule[]): Rule {
+    const rule: Rule = {
+        schema: { anyOf: rules.map(({ schema }) => schema).filter((schema) => Object.keys(schema).length > 0) },
+        expected: rules.map(({ expected }) => expected).join(' or '),
+        check(value, path, issues) {
+            const attempts = rules.map((candidate) => {
+                const found: ValidationIssue[] = [];
+                return { result: candidate.check(value, path, found), found };
+            });
+
+            const valid = attempts.find(({ found }) => found.length === 0);
+
+            if (valid)
+                return valid.result;
+
+            // Report the problems inside the value when only one of the rules takes values of its kind,
+            // which for objects is told apart by their `type`.
+            const fitting = attempts.filter(({ found }) => found.every((issue) => (
+                issue.path !== path && issue.path !== joinPath(path, 'type')
+            )));
+
+            if (fitting.length === 1) {
+                issues.push(...fitting[0].found);
+                return fitting[0].result;
+            }
+
+            return report(issues, path, rule, value);
+        },
+    };
+
+    return rule;
+}
+
+function arrayOf(item: Rule, { minItems, length }: { minItems?: number, length?: number } = {}): Rule {
+    const items = item.expected.replace(/^an? (\w+)/, '$1s');
+    const count = length !== undefined
+        ? `an array of ${length}`
+        : minItems === 1 ? 'a non-empty array of' : 'an array of';
+
+    const rule: Rule = {
+        schema: {
+            type: 'array',
+            items: item.schema,
+            ...(minItems !== undefined && { minItems }),
+            ...(length !== undefined && { minItems: length, maxItems: length }),
+        },
+        expected: `${count} ${items}`,
+        check(value, path, issues) {
+            if (!Array.isArray(value))
+                return report(issues, path, rule, value);
+
+            // Invalid items are left out in `warn` mode.
+            const items = value
+                .map((entry, index) => item.check(entry, `${path}[${index}]`, issues))
+                .filter((entry) => entry !== INVALID);
+
+            const tooShort = minItems !== undefined && value.length < minItems;
+
+            if ((length !== undefined && value.length !== length) || tooShort)
+                return report(issues, path, rule, value);
+
+            return length !== undefined && items.length !== length ? INVALID : items;
+        },
+    };
+
+    return rule;
+}
+
+function object(fields: Record<string, Rule>, required: string[] = []): Rule {
+    const type = fields.type?.schema.const;
+
+    const rule: Rule = {
+        schema: {
+            type: 'object',
+            properties: Object.fromEntries(Object.entries(fields).map(([key, field]) => [key, field.schema])),
+            ...(required.length > 0 && { required }),
+        },
+        expected: type === undefined ? 'an object' : `an object of type ${JSON.stringify(type)}`,
+        check(value, path, issues) {
+            if (typeof value !== 'object' || value === null || Array.isArray(value))
+                return report(issues, path, rule, value);
+
+            const checked: Record<string, unknown> = { ...value };
+
+            for (const key of required) {
+                if (checked[key] === undefined)
+                    issues.push({ path: joinPath(path, key), message: 'is required' });
+            }
+
+            for (const [key, field] of Object.entries(fields)) {
+                if (checked[key] === undefined)
+                    continue;
+
+                const result = field.check(checked[key], joinPath(path, key), issues);
+
+                if (result === INVALID)
+                    delete checked[key];
+                else
+                    checked[key] = result;
+            }
+
+            return required.every((key) => checked[key] !== undefined) ? checked : INVALID;
+        },
+    };
+
+    return rule;
+}
+
+function custom(schema: JSONSchema, expected: string, check: Rule['check']): Rule {
+    return { schema, expected, check };
+}
+
+function joinPath(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
+
+const unit = number({ min: 0, max: 1 });
+const finite = number();
+const positive = number({ above: 0 });
+const direction = oneOf(['left', 'right', 'up', 'down']);
+const colors = arrayOf(string, { minItems: 1 });
+const paletteSource = oneOf(['value', 'row', 'column']);
+
+const pattern = custom(
+    { type: 'string', examples: getPatternNames() },
+    'a registered pattern',
+    (value, path, issues) => {
+        const names = getPatternNames();
+
+        if (typeof value === 'string' && names.includes(value))
+            return value;
+
+        issues.push({
+            path,
+            message: `unknown pattern ${describeValue(value)}, expected one of ${names.join(', ')}`,
+        });
+
+        return INVALID;
+    }
+);
+
+const lifeRule = custom(
+    { type: 'string', pattern: '^\\s*(?:[Bb][0-8]*\\s*/\\s*[Ss][0-8]*|[Ss][0-8]*\\s*/\\s*[Bb][0-8]*)\\s*$' },
+    'a rule in B/S notation such as "B3/S23"',
+    (value, path, issues) => {
+        if (typeof value !== 'string')
+            return report(issues, path, lifeRule, value);
+
+        try {
+            parseLifeRule(value);
+            return value;
+        } catch {
+            return report(issues, path, lifeRule, value);
+        }
+    }
+);
+
+/** Colors that are blended with each other, which `parseColor()` has to be able to read. */
+const blendedColor = custom(
+    { type: 'string' },
+    'a color such as "#ff0000", "rgb(255, 0, 0)" or "red"',
+    (value, path, issues) => {
+        if (typeof value !== 'string')
+            return report(issues, path, blendedColor, value);
+
+        try {
+            parseColor(value);
+            return value;
+        } catch {
+            return report(issues, path, blendedColor, value);
+        }
+    }
+);
+
+const palette = anyOf(
+    colors,
+    object({ type: oneOf(['discrete']), colors, source: paletteSource }, ['type', 'colors']),
+    object({
+        type: oneOf(['gradient']),
+        stops: arrayOf(
+            anyOf(blendedColor, object({ offset: unit, color: blendedColor }, ['offset', 'color'])),
+            { minItems: 1 }
+        ),
+        source: paletteSource,
+    }, ['type', 'stops']),
+    callback
+);
+
+const range = arrayOf(number({ min: 0 }), { length: 2 });
+
+const japanRain = object({
+    glyphs: anyOf(oneOf(['characters']), arrayOf(string, { minItems: 1 })),
+    ranges: arrayOf(arrayOf(number({ min: 0, max: 0x10FFFF, integer: true }), { length: 2 }), { minItems: 1 }),
+    trailLength: arrayOf(number({ min: 1 }), { length: 2 }),
+    fallSpeed: range,
+    flickerRate: number({ min: 0 }),
+    headGlow: anyOf(string, oneOf([false])),
+    fade: unit,
+});
+
+const fit = oneOf(['cover', 'contain', 'stretch']);
+
+const maskShape = anyOf(
+    object({
+        type: oneOf(['text']),
+        text: string,
+        fontFamily: string,
+        fontWeight: anyOf(string, finite),
+    }, ['type', 'text']),
+    object({
+        type: oneOf(['path']),
+        path: string,
+        width: positive,
+        height: positive,
+    }, ['type', 'path', 'width', 'height']),
+    object({ type: oneOf(['image']), source: anyObject, channel: oneOf(['alpha', 'luminance']) }, ['type', 'source'])
+);
+
+/**
+ * Rules of the options a layer can set.
+ */
+const LAYER_FIELDS: Record<string, Rule> = {
+    pattern,
+    characters: arrayOf(string),
+    speed: number({ min: 0 }),
+    color: string,
+    palette,
+    paletteCycle: finite,
+    direction,
+    amplitudeX: finite,
+    amplitudeY: finite,
+    frequency: finite,
+    noiseScale: number({ min: 0 }),
+    noiseType: oneOf(['perlin', 'simplex']),
+    octaves: number({ min: 1, max: 8 }),
+    lacunarity: positive,
+    gain: number({ min: 0 }),
+    warp: number({ min: 0 }),
+    drift: finite,
+    rainDensity: unit,
+    japanRain,
+    rainDirection: oneOf(['vertical', 'diagonal-left', 'diagonal-right']),
+    wind: number({ min: -80, max: 80 }),
+    rainSplash: arrayOf(string),
+    rainFloor: number({ min: 0, integer: true }),
+    fireIntensity: unit,
+    fireCooling: unit,
+    starDensity: unit,
+    snowDensity: unit,
+    snowGravity: finite,
+    snowWind: finite,
+    lifeRule,
+    lifeDensity: unit,
+    lifeWrap: boolean,
+    lifeMapping: oneOf(['age', 'neighbors']),
+    seed: finite,
+    image: object({
+        source: anyObject,
+        fit,
+        sourceColor: boolean,
+        invert: boolean,
+        cellAspect: positive,
+    }, ['source']),
+    mask: object({
+        shape: maskShape,
+        effect: oneOf(['boost', 'invert', 'recolor']),
+        strength: number({ min: 0 }),
+        color: string,
+        fit,
+    }, ['shape']),
+    opacity: unit,
+    blend: oneOf(['add', 'multiply', 'max', 'mask']),
+};
+
+const layer = object(LAYER_FIELDS, ['pattern']);
+
+const options = object({
+    ...Object.fromEntries(Object.entries(LAYER_FIELDS).filter(([key]) => key !== 'opacity' && key !== 'blend')),
+    fontSize: positive,
+    fontFamily: string,
+    backgroundColor: string,
+    glyphAtlas: boolean,
+    dirtyCells: boolean,
+    maxFps: positive,
+    adaptiveQuality: anyOf(boolean, object({
+        reduce: oneOf(['frameRate', 'cellSize']),
+        minFps: positive,
+        maxCellScale: number({ min: 1 }),
+    })),
+    reducedMotion: oneOf(['static', 'slow', 'ignore']),
+    pauseWhenHidden: boolean,
+    interaction: object({
+        effect: oneOf(['ripple', 'repel', 'spotlight']),
+        radius: positive,
+        strength: finite,
+        rippleSpeed: positive,
+    }, ['effect']),
+    layers: arrayOf(layer),
+    validation: oneOf(['throw', 'warn']),
+});
+
+/**
+ * Whether the pattern picks its glyphs from `characters`, so that it draws nothing without them.
+ * Custom stateful patterns may well draw glyphs of their own.
+ */
+function usesCharacters({ pattern: name, japanRain: settings }: Partial<ASCIIGroundOptions>): boolean {
+    if (name === undefined || !getPatternNames().includes(name))
+        return false;
+
+    if (name === 'japan-rain')
+        return settings?.glyphs === 'characters';
+
+    return BUILT_IN_PATTERNS.has(name) || !isStatefulPattern(getPattern(name));
+}
+
+/**
+ * Checks that depend on the pattern, for the options of the instance or of one of its layers.
+ * Returns whether the pattern can be drawn with them.
+ */
+function checkPattern(
+    checked: Partial<LayerOptions>,
+    inherited: Partial<ASCIIGroundOptions>,
+    path: string,
+    issues: ValidationIssue[]
+): boolean {
+    const merged = { ...inherited, ...checked };
+
+    if (usesCharacters(merged) && merged.characters?.length === 0) {
+        issues.push({
+            path: joinPath(path, 'characters'),
+            message: `expected at least one character for the ${merged.pattern} pattern`,
+        });
+        delete checked.characters;
+    }
+
+    if (merged.pattern !== 'image' || merged.image)
+        return true;
+
+    issues.push({ path: joinPath(path, 'image'), message: 'is required by the image pattern' });
+    return false;
+}
+
+/**
+ * Find every problem of the given options, along with options that have the invalid values clamped
+ * or left out, and the required ones that are left out replaced.
+ */
+function inspect(
+    value: ASCIIGroundOptions,
+    fallbacks: typeof FALLBACKS
+): { issues: ValidationIssue[], corrected: ASCIIGroundOptions } {
+    const issues: ValidationIssue[] = [];
+    const checked = options.check(value, '', issues);
+
+    if (checked === INVALID)
+        return { issues, corrected: { ...fallbacks } };
+
+    const corrected = checked as Partial<ASCIIGroundOptions>;
+
+    for (const key of REQUIRED_OPTIONS) {
+        if (value?.[key] === undefined)
+            issues.push({ path: key, message: 'is required' });
+    }
+
+    if (!checkPattern(corrected, {}, '', issues))
+        delete corrected.pattern;
+
+    const complete = { ...fallbacks, ...corrected };
+
+    if (complete.layers) {
+        complete.layers = complete.layers.filter((entry, index) => (
+            checkPattern(entry, complete, `layers[${index}]`, issues)
+        ));
+    }
+
+    return { issues, corrected: complete };
+}
+
+/**
+ * Check options, returning every problem found, each with the path of its field.
+ */
+export function findOptionIssues(value: ASCIIGroundOptions): ValidationIssue[] {
+    return inspect(value, FALLBACKS).issues;
+}
+
+/**
+ * Check options by their `validation` mode. Invalid options are rejected with an `OptionsValidationError`,
+ * or in `warn` mode logged and returned with invalid values clamped or left out, so that defaults apply.
+ */
+export function validateOptions(value: ASCIIGroundOptions): ASCIIGroundOptions {
+    return validate(value, FALLBACKS);
+}
+
+function validate(value: ASCIIGroundOptions, fallbacks: typeof FALLBACKS): ASCIIGroundOptions {
+    const { issues, corrected } = inspect(value, fallbacks);
+
+    if (issues.length === 0)
+        return value;
+
+    if (value?.validation !== 'warn')
+        throw new OptionsValidationError(issues);
+
+    console.warn(`Invalid ASCIIGround options were corrected:\n${formatIssues(issues)}`);
+    return corrected;
+}
+
+/**
+ * Check changes to options by the `validation` mode of the options they result in. In `warn` mode,
+ * invalid values are clamped, or left out so that the current ones are kept.
+ */
+export function validateOptionChanges(
+    current: ASCIIGroundOptions,
+    changes: Partial<ASCIIGroundOptions>
+): Partial<ASCIIGroundOptions> {
+    const merged = { ...current, ...changes };
+    // Invalid required options fall back to the current ones.
+    const corrected = validate(merged, current);
+
+    if (corrected === merged)
+        return changes;
+
+    return Object.fromEntries(Object.keys(changes).map((key) => [key, corrected[key as keyof ASCIIGroundOptions]]));
+}
+
+/**
+ * JSON Schema of `ASCIIGroundOptions`, for editors and config tooling. Options that only take functions,
+ * such as palette callbacks, or browser objects, such as image sources, cannot be described by it.
+ */
+export const optionsSchema: JSONSchema = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'ASCIIGroundOptions',
+    ...options.schema,
+    required: [...REQUIRED_OPTIONS],
+};
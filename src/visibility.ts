@@ -0,0 +1,120 @@
+/**
+ * How to honor the `prefers-reduced-motion` setting:
+ * `static` shows a single frame instead of animating,
+ * `slow` keeps animating at a fraction of the speed,
+ * `ignore` animates as usual regardless of the setting.
+ */
+export type ReducedMotion = 'static' | 'slow' | 'ignore';
+
+/**
+ * Speed multiplier of the `slow` reduced motion mode.
+ */
+export const REDUCED_MOTION_SPEED = 0.1;
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Whether the canvas can be seen: the page is not hidden and the canvas is scrolled into view.
+ *
+ * Visibility is assumed until the browser reports otherwise, and browsers without the
+ * Page Visibility API or IntersectionObserver are treated as always showing the canvas.
+ */
+export class VisibilityWatcher {
+    private _canvas: HTMLCanvasElement;
+    private _onChange: (visible: boolean) => void;
+    private _observer: IntersectionObserver | null = null;
+    private _pageVisible: boolean = true;
+    private _intersecting: boolean = true;
+    private _attached: boolean = false;
+
+    constructor(canvas: HTMLCanvasElement, onChange: (visible: boolean) => void) {
+        this._canvas = canvas;
+        this._onChange = onChange;
+    }
+
+    get visible(): boolean {
+        return this._pageVisible && this._intersecting;
+    }
+
+    private update(pageVisible: boolean, intersecting: boolean): void {
+        const wasVisible = this.visible;
+        this._pageVisible = pageVisible;
+        this._intersecting = intersecting;
+
+        if (this.visible !== wasVisible)
+            this._onChange(this.visible);
+    }
+
+    private handleVisibilityChange = (): void => {
+        this.update(!document.hidden, this._intersecting);
+    };
+
+    private handleIntersection = (entries: IntersectionObserverEntry[]): void => {
+        // Only the latest entry matters when several changes are reported at once.
+        const entry = entries[entries.length - 1];
+
+        if (entry)
+            this.update(this._pageVisible, entry.isIntersecting);
+    };
+
+    attach(): void {
+        if (this._attached)
+            return;
+
+        const ownerDocument = this._canvas.ownerDocument;
+        ownerDocument.addEventListener('visibilitychange', this.handleVisibilityChange);
+        this._pageVisible = !ownerDocument.hidden;
+
+        if (typeof IntersectionObserver !== 'undefined') {
+            this._observer = new IntersectionObserver(this.handleIntersection);
+            this._observer.observe(this._canvas);
+        }
+
+        this._attached = true;
+    }
+
+    detach(): void {
+        if (!this._attached)
+            return;
+
+        this._canvas.ownerDocument.removeEventListener('visibilitychange', this.handleVisibilityChange);
+        this._observer?.disconnect();
+        this._observer = null;
+        this._pageVisible = true;
+        this._intersecting = true;
+        this._attached = false;
+    }
+}
+
+/**
+ * Follows the `prefers-reduced-motion` media query. Browsers without `matchMedia` never reduce motion.
+ */
+export class ReducedMotionQuery {
+    private _onChange: (reduce: boolean) => void;
+    private _query: MediaQueryList | null = null;
+
+    constructor(onChange: (reduce: boolean) => void) {
+        this._onChange = onChange;
+    }
+
+    get matches(): boolean {
+        return this._query?.matches ?? false;
+    }
+
+    private handleChange = (event: MediaQueryListEvent): void => {
+        this._onChange(event.matches);
+    };
+
+    attach(): void {
+        if (this._query || typeof matchMedia === 'undefined')
+            return;
+
+        this._query = matchMedia(REDUCED_MOTION_QUERY);
+        this._query.addEventListener('change', this.handleChange);
+    }
+
+    detach(): void {
+        this._query?.removeEventListener('change', this.handleChange);
+        this._query = null;
+    }
+}
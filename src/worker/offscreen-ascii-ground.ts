@@ -0,0 +1,315 @@
+import { PointerTracker } from '../interaction';
+import { createInstanceConfig, type ASCIIGroundConfig } from '../config';
+import { ASCIIGround, type ASCIIGroundController, type DestroySettings } from '../ascii-ground';
+import type { ASCIIGroundOptions } from '../options';
+import type { UpdateSettings } from '../rendering/transition';
+import { assertValidPlaybackRate, assertValidStep, assertValidTime } from '../timeline';
+import { validateOptionChanges, validateOptions } from '../validation';
+import { ReducedMotionQuery, VisibilityWatcher } from '../visibility';
+import type { RenderRequest, RenderResponse } from './protocol';
+// Inlined, so that the worker loads wherever the bundle is served from.
+import RenderWorker from './render-worker.ts?worker&inline';
+
+export interface OffscreenSettings {
+    /** Create the worker to render in. Defaults to the render worker inlined in the bundle. */
+    createWorker?: () => Worker
+    /** Called with errors raised inside the worker. Errors are rethrown on the main thread by default. */
+    onError?: (error: Error) => void
+}
+
+function createRenderWorker(): Worker {
+    return new RenderWorker();
+}
+
+/**
+ * Drives an ASCIIGround instance that renders inside a web worker, on a canvas
+ * transferred with `transferControlToOffscreen()`. The main thread only
+ * forwards method calls and pointer input.
+ */
+export class OffscreenASCIIGround implements ASCIIGroundController {
+    private _canvas: HTMLCanvasElement;
+    private _worker: Worker;
+    private _options: ASCIIGroundOptions;
+    private _width: number;
+    private _height: number;
+    private _animating: boolean = false;
+    private _playbackRate: number = 1;
+    private _pointerTracker: PointerTracker | null = null;
+    private _visibilityWatcher: VisibilityWatcher | null = null;
+    private _reducedMotionQuery: ReducedMotionQuery | null = null;
+    private _onError: (error: Error) => void;
+    private _destroyed: boolean = false;
+
+    /**
+     * Whether the browser can render a canvas inside a worker.
+     */
+    static isSupported(): boolean {
+        return typeof Worker !== 'undefined'
+            && typeof OffscreenCanvas !== 'undefined'
+            && typeof HTMLCanvasElement !== 'undefined'
+            && 'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+    }
+
+    get isAnimating(): boolean {
+        return this._animating;
+    }
+
+    /**
+     * Factor time passes at on the timeline of the worker's instance.
+     */
+    get playbackRate(): number {
+        return this._playbackRate;
+    }
+
+    set playbackRate(rate: number) {
+        this.assertNotDestroyed();
+        assertValidPlaybackRate(rate);
+        this._playbackRate = rate;
+        this.post({ type: 'playbackRate', rate });
+    }
+
+    get worker(): Worker {
+        return this._worker;
+    }
+
+    constructor(canvas: HTMLCanvasElement, options: ASCIIGroundOptions, settings: OffscreenSettings = {}) {
+        this._canvas = canvas;
+        // Invalid options are reported right away rather than once the worker gets them.
+        this._options = validateOptions(options);
+        this._width = canvas.width;
+        this._height = canvas.height;
+        this._onError = settings.onError ?? ((error) => { throw error; });
+        this._worker = (settings.createWorker ?? createRenderWorker)();
+
+        this._worker.addEventListener('message', this.handleMessage);
+        const offscreen = canvas.transferControlToOffscreen();
+        this.post({ type: 'create', canvas: offscreen, options: this._options }, [offscreen]);
+        this.configureInteraction();
+        this.configurePlayback();
+    }
+
+    private handleMessage = (event: MessageEvent<RenderResponse>): void => {
+        if (event.data.type === 'error')
+            this._onError(new Error(event.data.message));
+    };
+
+    private post(request: RenderRequest, transfer: Transferable[] = []): void {
+        try {
+            this._worker.postMessage(request, transfer);
+        } catch (error) {
+            if (error instanceof DOMException && error.name === 'DataCloneError')
+                throw new Error('Options of an offscreen ASCIIGround must be cloneable, functions are not supported.');
+
+            throw error;
+        }
+    }
+
+    private configureInteraction(): void {
+        if (!this._options.interaction) {
+            this._pointerTracker?.detach();
+            this._pointerTracker = null;
+            return;
+        }
+
+        if (this._pointerTracker)
+            return;
+
+        this._pointerTracker = new PointerTracker(
+            this._canvas,
+            (input) => this.post({ type: 'pointer', input }),
+            window,
+            () => ({ width: this._width, height: this._height })
+        );
+
+        this._pointerTracker.attach();
+    }
+
+    /**
+     * Watch visibility and the reduced motion setting here, since neither can be queried inside the worker.
+     * The worker assumes a visible canvas and full motion until told otherwise.
+     */
+    private configurePlayback(): void {
+        if (this._options.pauseWhenHidden !== false && !this._visibilityWatcher) {
+            this._visibilityWatcher = new VisibilityWatcher(
+                this._canvas,
+                (visible) => this.post({ type: 'visibility', visible })
+            );
+
+            this._visibilityWatcher.attach();
+
+            if (!this._visibilityWatcher.visible)
+                this.post({ type: 'visibility', visible: false });
+        } else if (this._options.pauseWhenHidden === false && this._visibilityWatcher) {
+            this._visibilityWatcher.detach();
+            this._visibilityWatcher = null;
+            this.post({ type: 'visibility', visible: true });
+        }
+
+        if (!this._reducedMotionQuery) {
+            this._reducedMotionQuery = new ReducedMotionQuery((reduce) => this.post({ type: 'reducedMotion', reduce }));
+            this._reducedMotionQuery.attach();
+
+            if (this._reducedMotionQuery.matches)
+                this.post({ type: 'reducedMotion', reduce: true });
+        }
+    }
+
+    /**
+     * Render the initial state.
+     */
+    init(): OffscreenASCIIGround {
+        this.assertNotDestroyed();
+        this.post({ type: 'init' });
+        return this;
+    }
+
+    /**
+     * Start the animation.
+     */
+    startAnimation(): void {
+        this.assertNotDestroyed();
+
+        if (this._animating)
+            throw new Error('Animation is already running!');
+
+        this._animating = true;
+        this.post({ type: 'start' });
+    }
+
+    /**
+     * Stop the animation.
+     */
+    stopAnimation(): void {
+        this.assertNotDestroyed();
+
+        if (!this._animating)
+            return;
+
+        this._animating = false;
+        this.post({ type: 'stop' });
+    }
+
+    /**
+     * Pause the animation, keeping its point of the timeline for `resume()`.
+     */
+    pause(): void {
+        this.assertNotDestroyed();
+        this._animating = false;
+        this.post({ type: 'pause' });
+    }
+
+    /**
+     * Carry on playing from the current point of the timeline.
+     */
+    resume(): void {
+        this.assertNotDestroyed();
+        this._animating = true;
+        this.post({ type: 'resume' });
+    }
+
+    /**
+     * Jump to the given point of the timeline, in seconds, and draw its frame.
+     */
+    seek(time: number): void {
+        this.assertNotDestroyed();
+        assertValidTime(time);
+        this.post({ type: 'seek', time });
+    }
+
+    /**
+     * Move the timeline by the given number of seconds.
+     */
+    step(delta: number): void {
+        this.assertNotDestroyed();
+        assertValidStep(delta);
+        this.post({ type: 'step', delta });
+    }
+
+    /**
+     * Pause the animation and draw the frame at the given point of the timeline, in seconds.
+     */
+    renderAt(time: number): void {
+        this.assertNotDestroyed();
+        assertValidTime(time);
+        this._animating = false;
+        this.post({ type: 'renderAt', time });
+    }
+
+    /**
+     * Update animation options. Easing functions of a `transition` cannot be sent to the worker,
+     * use easing names instead.
+     */
+    updateOptions(changes: Partial<ASCIIGroundOptions>, settings: UpdateSettings = {}): void {
+        this.assertNotDestroyed();
+        const newOptions = validateOptionChanges(this._options, changes);
+        this.post({ type: 'update', options: newOptions, settings });
+        this._options = { ...this._options, ...newOptions };
+        this.configureInteraction();
+        this.configurePlayback();
+    }
+
+    resize(width: number, height: number): void {
+        this.assertNotDestroyed();
+
+        // The canvas size can only be changed from the worker once control has been transferred.
+        this._width = width;
+        this._height = height;
+        this.post({ type: 'resize', width, height });
+    }
+
+    /**
+     * Configuration of the instance, with defaults applied, as plain JSON. Palette functions
+     * and image sources cannot be expressed in JSON and are left out.
+     */
+    toJSON(): ASCIIGroundConfig {
+        return createInstanceConfig(this._options);
+    }
+
+    /**
+     * Stop the worker and remove every listener and observer. The instance cannot be used afterwards.
+     */
+    destroy(settings: DestroySettings = {}): void {
+        this.assertNotDestroyed();
+        this._pointerTracker?.detach();
+        this._pointerTracker = null;
+        this._visibilityWatcher?.detach();
+        this._visibilityWatcher = null;
+        this._reducedMotionQuery?.detach();
+        this._reducedMotionQuery = null;
+
+        this.post({ type: 'destroy' });
+        this._worker.removeEventListener('message', this.handleMessage);
+        this._worker.terminate();
+        this._animating = false;
+
+        if (settings.removeCanvas)
+            this._canvas.remove();
+
+        this._destroyed = true;
+    }
+
+    private assertNotDestroyed(): void {
+        if (this._destroyed)
+            throw new Error('ASCIIGround instance has been destroyed.');
+    }
+}
+
+export interface CreateASCIIGroundSettings extends OffscreenSettings {
+    /** Render inside a web worker when the browser supports OffscreenCanvas. */
+    offscreen?: boolean
+}
+
+/**
+ * Create a background renderer, moving it into a web worker when `offscreen` is set
+ * and supported, and falling back to rendering on the main thread otherwise.
+ */
+export function createASCIIGround(
+    canvas: HTMLCanvasElement,
+    options: ASCIIGroundOptions,
+    settings: CreateASCIIGroundSettings = {}
+): ASCIIGroundController {
+    if (settings.offscreen && OffscreenASCIIGround.isSupported())
+        return new OffscreenASCIIGround(canvas, options, settings);
+
+    return new ASCIIGround(canvas, options);
+}
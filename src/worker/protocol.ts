@@ -0,0 +1,30 @@
+import type { PointerInput } from '../interaction';
+import type { ASCIIGroundOptions } from '../options';
+import type { UpdateSettings } from '../rendering/transition';
+
+/**
+ * Messages sent from the main thread to a render worker.
+ */
+export type RenderRequest =
+    | { type: 'create', canvas: OffscreenCanvas, options: ASCIIGroundOptions }
+    | { type: 'init' }
+    | { type: 'start' }
+    | { type: 'stop' }
+    | { type: 'pause' }
+    | { type: 'resume' }
+    | { type: 'seek', time: number }
+    | { type: 'step', delta: number }
+    | { type: 'renderAt', time: number }
+    | { type: 'playbackRate', rate: number }
+    | { type: 'update', options: Partial<ASCIIGroundOptions>, settings?: UpdateSettings }
+    | { type: 'resize', width: number, height: number }
+    | { type: 'pointer', input: PointerInput }
+    | { type: 'visibility', visible: boolean }
+    | { type: 'reducedMotion', reduce: boolean }
+    | { type: 'destroy' };
+
+/**
+ * Messages sent from a render worker back to the main thread.
+ */
+export type RenderResponse =
+    | { type: 'error', message: string };
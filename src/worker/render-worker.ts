@@ -0,0 +1,12 @@
+/**
+ * Entry point of the render worker used by OffscreenASCIIGround.
+ */
+import { serveRenderRequests, type RenderPort } from './server';
+
+// Not every browser provides animation frames inside workers.
+if (typeof self.requestAnimationFrame !== 'function') {
+    self.requestAnimationFrame = (callback) => self.setTimeout(() => callback(performance.now()), 1000 / 60);
+    self.cancelAnimationFrame = (id) => self.clearTimeout(id);
+}
+
+serveRenderRequests(self as unknown as RenderPort);
@@ -0,0 +1,84 @@
+import { ASCIIGround } from '../ascii-ground';
+import type { RenderRequest, RenderResponse } from './protocol';
+
+/**
+ * The side of a message channel that render requests arrive on, e.g. a worker's global scope.
+ */
+export interface RenderPort {
+    addEventListener(type: 'message', listener: (event: MessageEvent<RenderRequest>) => void): void
+    postMessage(message: RenderResponse): void
+}
+
+function handleRequest(ground: ASCIIGround | null, request: RenderRequest): ASCIIGround | null {
+    if (request.type === 'create')
+        return new ASCIIGround(request.canvas, request.options);
+
+    if (!ground)
+        throw new Error('Render worker received a request before its canvas.');
+
+    switch (request.type) {
+        case 'init':
+            ground.init();
+            break;
+        case 'start':
+            ground.startAnimation();
+            break;
+        case 'stop':
+            ground.stopAnimation();
+            break;
+        case 'pause':
+            ground.pause();
+            break;
+        case 'resume':
+            ground.resume();
+            break;
+        case 'seek':
+            ground.seek(request.time);
+            break;
+        case 'step':
+            ground.step(request.delta);
+            break;
+        case 'renderAt':
+            ground.renderAt(request.time);
+            break;
+        case 'playbackRate':
+            ground.playbackRate = request.rate;
+            break;
+        case 'update':
+            ground.updateOptions(request.options, request.settings);
+            break;
+        case 'resize':
+            ground.resize(request.width, request.height);
+            break;
+        case 'pointer':
+            ground.dispatchPointer(request.input);
+            break;
+        case 'visibility':
+            ground.setVisibility(request.visible);
+            break;
+        case 'reducedMotion':
+            ground.setReducedMotion(request.reduce);
+            break;
+        case 'destroy':
+            ground.destroy();
+            return null;
+    }
+
+    return ground;
+}
+
+/**
+ * Run an ASCIIGround instance on a transferred canvas, driven by messages from the main thread.
+ * Errors are reported back instead of being thrown inside the worker.
+ */
+export function serveRenderRequests(port: RenderPort): void {
+    let ground: ASCIIGround | null = null;
+
+    port.addEventListener('message', (event) => {
+        try {
+            ground = handleRequest(ground, event.data);
+        } catch (error) {
+            port.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+        }
+    });
+}
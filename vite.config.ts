@@ -65,6 +65,20 @@ const config: Record<string, UserConfig> = {
             },
         },
     },
+    'cli': {
+        build: {
+            ssr: 'src/cli/index.ts',
+            outDir: 'dist',
+            emptyOutDir: false,
+            target: 'node18',
+            rollupOptions: {
+                output: {
+                    entryFileNames: 'cli.js',
+                    banner: '#!/usr/bin/env node',
+                },
+            },
+        },
+    },
     'default': {
         root: 'src/demo',
         base: './',